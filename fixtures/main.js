@@ -1,6 +1,6 @@
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { app, BrowserWindow, ipcMain } from 'electron'
+import { app, BrowserWindow, dialog, ipcMain, Menu } from 'electron'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -10,6 +10,10 @@ if (process.env.E2E_CDP_PORT) {
   app.commandLine.appendSwitch('remote-debugging-port', process.env.E2E_CDP_PORT)
 }
 
+if (process.env.E2E_USER_DATA_DIR) {
+  app.setPath('userData', process.env.E2E_USER_DATA_DIR)
+}
+
 if (headless) {
   app.commandLine.appendSwitch('headless')
   app.commandLine.appendSwitch('disable-gpu')
@@ -24,6 +28,7 @@ const createWindow = () => {
       nodeIntegration: false,
       contextIsolation: true,
       nativeWindowOpen: true,
+      webviewTag: true,
     },
     show: !headless,
   })
@@ -37,8 +42,60 @@ ipcMain.handle('eat-ping', async (_event, message = 'ping') => {
   return reply
 })
 
+// Lets supervision tests simulate a main-process crash.
+ipcMain.handle('eat-crash', () => {
+  setTimeout(() => process.exit(3), 50)
+  return true
+})
+
+// Menu tests read `lastMenuAction` back through the main-process inspector.
+const menuAction = (name) => () => {
+  globalThis.lastMenuAction = name
+}
+
+ipcMain.handle('eat-context-menu', (event) => {
+  Menu.buildFromTemplate([
+    { label: 'Copy Link', click: menuAction('copy-link') },
+    { label: 'Inspect', enabled: false },
+  ]).popup({ window: BrowserWindow.fromWebContents(event.sender) ?? undefined })
+  return true
+})
+
+ipcMain.handle('eat-open-dialog', (event) =>
+  dialog.showOpenDialog(BrowserWindow.fromWebContents(event.sender), {
+    title: 'Pick a folder',
+    properties: ['openDirectory'],
+  }),
+)
+
+ipcMain.handle('eat-message-box', () =>
+  dialog.showMessageBox({ message: 'Save changes?', buttons: ['Save', 'Discard', 'Cancel'] }),
+)
+
 app.whenReady().then(() => {
   console.log('main-ready')
+  Menu.setApplicationMenu(
+    Menu.buildFromTemplate([
+      {
+        label: '&File',
+        submenu: [
+          {
+            label: 'Export',
+            submenu: [
+              { label: 'PDF', accelerator: 'CmdOrCtrl+Shift+E', click: menuAction('export-pdf') },
+              { label: 'HTML', enabled: false },
+            ],
+          },
+          { type: 'separator' },
+          { role: 'quit' },
+        ],
+      },
+      {
+        label: 'View',
+        submenu: [{ id: 'show-sidebar', label: 'Show Sidebar', type: 'checkbox', checked: true }],
+      },
+    ]),
+  )
   createWindow()
 
   app.on('activate', () => {
@@ -1,6 +1,16 @@
 import assert from 'node:assert'
-import { execFile } from 'node:child_process'
-import { access, mkdtemp, readdir, readFile, realpath, stat, writeFile } from 'node:fs/promises'
+import { execFile, spawn } from 'node:child_process'
+import {
+  access,
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  realpath,
+  stat,
+  writeFile,
+} from 'node:fs/promises'
+import http from 'node:http'
 import os from 'node:os'
 import path from 'node:path'
 import { test } from 'node:test'
@@ -62,6 +72,24 @@ const runBrowserTool = (sub, payload) =>
     (res) => JSON.parse(res.stdout),
   )
 
+/** Spawns `browser-tools serve` for `wsUrl` and resolves once it printed its socket. */
+const startServe = async (wsUrl, artifactPrefix) => {
+  const serve = spawn(
+    'node',
+    [
+      path.join(root, 'dist/cli/browser-tools.js'),
+      'serve',
+      JSON.stringify({ wsUrl, artifactPrefix }),
+    ],
+    { cwd: root, stdio: ['ignore', 'pipe', 'inherit'] },
+  )
+  const ready = await new Promise((resolve, reject) => {
+    serve.stdout.once('data', (chunk) => resolve(JSON.parse(chunk.toString())))
+    serve.once('exit', (code) => reject(new Error(`serve exited early: ${code}`)))
+  })
+  return { serve, ready }
+}
+
 const loadLib = () => import(pathToFileURL(path.join(root, 'dist/index.js')).href)
 
 test(
@@ -247,6 +275,33 @@ test(
   },
 )
 
+test('browser-tools discover finds a running app by port', { concurrency: false }, async () => {
+  await buildOnce()
+  const { launchElectron } = await loadLib()
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'discover-spec',
+    headless: true,
+    ready: { window: { titleContains: 'Mini App' } },
+  })
+  try {
+    const res = await runBrowserTool('discover', {
+      ports: [launch.cdpPort, launch.cdpPort],
+      daemon: false,
+    })
+    assert.strictEqual(res.ok, true)
+    const app = res.data.apps.find((candidate) => candidate.port === launch.cdpPort)
+    assert.ok(app, 'launched app discovered')
+    assert.strictEqual(app.wsUrl, launch.wsUrl)
+    assert.ok(app.electronVersion)
+    assert.ok(app.sources.includes('port-scan'))
+    assert.ok(app.windows.some((w) => w.title === 'Mini App'))
+  } finally {
+    await launch.quit()
+  }
+})
+
 test('launch-electron CLI start/quit', { concurrency: false }, async () => {
   await buildOnce()
 
@@ -277,3 +332,1082 @@ test('launch-electron CLI start/quit', { concurrency: false }, async () => {
   const quitJson = JSON.parse(quit.stdout)
   assert.strictEqual(quitJson.ok, true)
 })
+
+test('launch-electron CLI status and gc', { concurrency: false }, async () => {
+  await buildOnce()
+  const cli = path.join(root, 'dist/cli/launch-electron.js')
+  const artifactDir = await mkdtemp(path.join(os.tmpdir(), 'eat-gc-'))
+  const launchCli = (sub, payload) =>
+    run('node', [cli, sub, JSON.stringify(payload)]).then((res) => JSON.parse(res.stdout))
+
+  const start = await launchCli('start', {
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactDir,
+    artifactPrefix: 'live',
+  })
+  assert.strictEqual(start.ok, true)
+  // A launch.json whose pid is long gone, as left behind by a killed test run.
+  await mkdir(path.join(artifactDir, 'stale'))
+  await writeFile(
+    path.join(artifactDir, 'stale', 'launch.json'),
+    JSON.stringify({ pid: 2 ** 22 + 1, cdpPort: 1, artifactDir: path.join(artifactDir, 'stale') }),
+  )
+
+  try {
+    const status = await launchCli('status', { artifactDir })
+    assert.strictEqual(status.ok, true)
+    const byDir = Object.fromEntries(status.data.runs.map((r) => [path.basename(r.runDir), r]))
+    assert.strictEqual(byDir.live.state, 'running')
+    assert.strictEqual(byDir.live.cdpReachable, true)
+    assert.ok(byDir.live.windows >= 1)
+    assert.strictEqual(byDir.stale.state, 'dead')
+
+    const gc = await launchCli('gc', { artifactDir })
+    assert.deepStrictEqual(
+      gc.data.collected.map((c) => [path.basename(c.runDir), c.reason]),
+      [['stale', 'dead']],
+    )
+    assert.strictEqual(gc.data.kept, 1)
+    await assert.rejects(access(path.join(artifactDir, 'stale', 'launch.json')))
+
+    // Live runs stay unless idle collection is asked for explicitly.
+    const again = await launchCli('gc', { artifactDir, unreachable: true })
+    assert.deepStrictEqual(again.data.collected, [])
+    assert.ok(byDir.live.lastActivity)
+    const idle = await launchCli('gc', { artifactDir, idleMs: 0 })
+    assert.ok(idle.data.collected[0].terminated.includes(start.data.pid))
+    const after = await launchCli('status', { artifactDir })
+    assert.deepStrictEqual(after.data.runs, [])
+  } finally {
+    await launchCli('quit', { pid: start.data.pid }).catch(() => {})
+  }
+})
+
+test('driver records renderer traffic into a HAR file', { concurrency: false }, async () => {
+  await buildOnce()
+  const { launchElectron, connectAndPick } = await loadLib()
+  const server = http.createServer((req, res) => {
+    res.setHeader('access-control-allow-origin', '*')
+    res.setHeader('content-type', 'application/json')
+    res.end(JSON.stringify({ path: req.url, padding: 'x'.repeat(4096) }))
+  })
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const base = `http://127.0.0.1:${server.address().port}`
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'network-har',
+    headless: true,
+  })
+
+  try {
+    const driver = await connectAndPick({
+      wsUrl: launch.wsUrl,
+      runLogPath: launch.runLogPath,
+      recordNetwork: { maxBodyBytes: 1024, exclude: ['/skip'] },
+    })
+    await driver.evalInRendererMainWorld(async (url) => {
+      await fetch(`${url}/api/items?limit=2`, { method: 'POST', body: '{"q":1}' })
+      await fetch(`${url}/skip/me`)
+    }, base)
+    const saved = await driver.stopNetworkRecording()
+    await driver.close()
+
+    assert.strictEqual(saved.path, path.join(launch.artifactDir, 'network.har'))
+    const har = JSON.parse(await readFile(saved.path, 'utf-8'))
+    assert.strictEqual(har.log.version, '1.2')
+    const urls = har.log.entries.map((entry) => entry.request.url)
+    assert.ok(urls.includes(`${base}/api/items?limit=2`))
+    assert.ok(!urls.some((url) => url.includes('/skip')), 'exclude filter applies')
+
+    const entry = har.log.entries.find((e) => e.request.url.includes('/api/items'))
+    assert.strictEqual(entry.request.method, 'POST')
+    assert.strictEqual(entry.request.postData.text, '{"q":1}')
+    assert.deepStrictEqual(entry.request.queryString, [{ name: 'limit', value: '2' }])
+    assert.strictEqual(entry.response.status, 200)
+    assert.strictEqual(entry.response.content.text.length, 1024)
+    assert.match(entry.response.content.comment, /truncated/)
+
+    const runLog = await readFile(launch.runLogPath, 'utf-8')
+    assert.match(runLog, /network-recording-saved/)
+  } finally {
+    await launch.quit()
+    server.close()
+  }
+})
+
+test(
+  'aria-snapshot returns a tree whose selectors round-trip',
+  { concurrency: false },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'aria-snapshot',
+      headless: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const snapshot = await runBrowserTool('aria-snapshot', { wsUrl })
+      assert.strictEqual(snapshot.ok, true)
+      const flat = []
+      const walk = (nodes) => {
+        for (const node of nodes) {
+          flat.push(node)
+          walk(node.children ?? [])
+        }
+      }
+      walk(snapshot.data.nodes)
+
+      // A plain <button> has no role attribute but still shows up with its implicit role.
+      const button = flat.find((node) => node.role === 'button' && node.name === 'click button')
+      assert.ok(button, 'implicit button role and accessible name')
+      const input = flat.find((node) => node.role === 'textbox')
+      assert.ok(input?.selector?.role, 'textbox gets a role selector')
+
+      const driver = await connectAndPick({ wsUrl })
+      for (const node of flat.filter((n) => n.selector.role)) {
+        const { role, name } = node.selector.role
+        const count = await driver.page.getByRole(role, name ? { name } : {}).count()
+        assert.ok(node.selector.nth < count, `selector resolves: ${JSON.stringify(node.selector)}`)
+      }
+      await driver.click(button.selector)
+      await driver.waitText('Select a folder')
+
+      const scoped = await driver.ariaSnapshot(button.selector)
+      assert.strictEqual(scoped[0].role, 'button')
+      assert.deepStrictEqual(scoped[0].selector, button.selector)
+      await driver.close()
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test(
+  'observe hands out refs that actions accept until the node goes away',
+  {
+    concurrency: false,
+  },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'element-refs',
+      headless: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const observed = await runBrowserTool('observe', { wsUrl })
+      assert.strictEqual(observed.ok, true)
+      const button = observed.data.elements.find((el) => el.name === 'click button')
+      assert.ok(button, 'button observed')
+      assert.match(button.ref, /^e\d+$/)
+      assert.strictEqual(button.role, 'button')
+      assert.ok(button.box.width > 0 && button.box.height > 0)
+      const input = observed.data.elements.find((el) => el.tag === 'input' && el.role === 'textbox')
+
+      // Refs live in the DOM, so they stay stable across separate CLI invocations.
+      const again = await runBrowserTool('observe', { wsUrl })
+      assert.strictEqual(
+        again.data.elements.find((el) => el.name === 'click button').ref,
+        button.ref,
+      )
+
+      await runBrowserTool('type', { wsUrl, ref: input.ref, value: 'via ref' })
+      const typed = await runBrowserTool('observe', { wsUrl })
+      assert.strictEqual(typed.data.elements.find((el) => el.ref === input.ref).value, 'via ref')
+      await runBrowserTool('click', { wsUrl, ref: button.ref })
+      await runBrowserTool('wait-text', { wsUrl, text: 'Select a folder', timeoutMs: 10000 })
+
+      const driver = await connectAndPick({ wsUrl })
+      await driver.page.reload()
+      await driver.close()
+      const stale = await runBrowserTool('click', { wsUrl, ref: button.ref })
+      assert.strictEqual(stale.ok, false)
+      assert.strictEqual(stale.error.code, 'E_SELECTOR')
+      assert.strictEqual(stale.error.details.error.details.reason, 'stale-ref')
+
+      const fresh = await runBrowserTool('observe', { wsUrl })
+      const rebound = fresh.data.elements.find((el) => el.name === 'click button')
+      assert.notStrictEqual(rebound.ref, button.ref, 'refs are not reused after a reload')
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test(
+  'selectors combine fields, scope, filter and enforce strictness',
+  {
+    concurrency: false,
+  },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'selector-model',
+      headless: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const driver = await connectAndPick({ wsUrl })
+      const inputValue = () =>
+        driver.evalInRendererMainWorld(() => document.getElementById('name-input').value)
+
+      await driver.type({ placeholder: 'Enter name', exact: true, value: 'by placeholder' })
+      assert.strictEqual(await inputValue(), 'by placeholder')
+
+      // The h1 and the button both contain "click button".
+      await assert.rejects(driver.click({ text: 'click button', strict: true }), (error) => {
+        assert.strictEqual(error.code, 'E_SELECTOR')
+        assert.strictEqual(error.details.reason, 'strict')
+        assert.strictEqual(error.details.count, 2)
+        return true
+      })
+      await assert.rejects(
+        driver.click({ text: 'click', exact: true, timeoutMs: 500 }),
+        (error) => error.code === 'E_SELECTOR',
+      )
+      await driver.click({ role: { role: 'button' }, text: 'click button', strict: true })
+      await driver.waitText('Select a folder', 5000)
+
+      const hovered = await runBrowserTool('hover', {
+        wsUrl,
+        within: { css: 'body' },
+        role: { role: 'button', name: { regex: '^HOVER', flags: 'i' } },
+        strict: true,
+      })
+      assert.strictEqual(hovered.ok, true)
+      const hoverOutput = await driver.evalInRendererMainWorld(
+        () => document.getElementById('hover-output').textContent,
+      )
+      assert.strictEqual(hoverOutput, 'hovered')
+
+      const dom = await runBrowserTool('get-dom', {
+        wsUrl,
+        xpath: '//body/*',
+        hasText: { regex: '^far target$' },
+        as: 'textContent',
+      })
+      assert.strictEqual(dom.data.value, 'far target')
+      const scoped = await runBrowserTool('get-dom', {
+        wsUrl,
+        css: 'body',
+        has: { testid: 'file-input' },
+        as: 'innerHTML',
+      })
+      assert.match(scoped.data.value, /file-output/)
+      await driver.close()
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test(
+  'selectors reach into iframes, shadow roots and webviews',
+  {
+    concurrency: false,
+  },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'frames',
+      headless: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const driver = await connectAndPick({ wsUrl })
+      await driver.page.goto(pathToFileURL(path.join(root, 'fixtures/frames.html')).href)
+
+      await driver.click({ frame: { name: 'inner' }, testid: 'frame-button' })
+      assert.strictEqual(
+        await driver.getDom({ frame: { name: 'inner' }, testid: 'frame-button' }, 'textContent'),
+        'frame clicked',
+      )
+      const viaElement = await runBrowserTool('get-dom', {
+        wsUrl,
+        frame: { selector: 'iframe[name="inner"]' },
+        role: { role: 'button' },
+        as: 'textContent',
+      })
+      assert.strictEqual(viaElement.data.value, 'frame clicked')
+
+      await driver.click({ testid: 'shadow-button' })
+      const dump = await driver.dumpDOM(undefined, undefined, { shadow: true, frames: true })
+      assert.match(
+        dump.html,
+        /<template shadowrootmode="open"><button data-testid="shadow-button">shadow clicked/,
+      )
+      assert.match(dump.html, /<!-- frame name="inner"/)
+      assert.match(dump.html, /<!-- webview name="Second Window"[^>]*second\.html/)
+      assert.match(dump.html, /Secondary window/)
+
+      const selectors = await driver.listSelectors(50, { shadow: true, frames: true })
+      assert.ok(selectors.testIds.includes('shadow-button'))
+      assert.ok(
+        selectors.frames.some((f) => f.name === 'inner' && f.testIds.includes('frame-button')),
+      )
+      assert.ok(selectors.frames.some((f) => f.webview && f.testIds.includes('second-title')))
+
+      const listed = await runBrowserTool('list-webviews', { wsUrl })
+      assert.strictEqual(listed.ok, true)
+      assert.ok(listed.data.webviews.some((w) => w.url.endsWith('second.html')))
+      const title = await runBrowserTool('get-dom', {
+        wsUrl,
+        frame: { webview: true, url: 'second.html' },
+        testid: 'second-title',
+        as: 'textContent',
+      })
+      assert.strictEqual(title.data.value, 'Secondary window')
+      const inWebview = { frame: { webview: true, url: 'second.html' }, testid: 'second-title' }
+      await driver.scrollIntoView(inWebview)
+      await driver.dblclick(inWebview)
+      await assert.rejects(driver.upload(inWebview, path.join(root, 'package.json')), (error) => {
+        assert.strictEqual(error.code, 'E_SELECTOR')
+        assert.strictEqual(error.details.reason, 'webview')
+        return true
+      })
+      assert.throws(() => driver.expect(inWebview), /expect is not supported inside webviews/)
+      assert.strictEqual(
+        await driver.evalInWebview({ url: 'second.html' }, () => document.title),
+        'Second Window',
+      )
+
+      const missing = await runBrowserTool('click', {
+        wsUrl,
+        frame: { name: 'nope' },
+        css: 'button',
+        timeoutMs: 300,
+      })
+      assert.strictEqual(missing.ok, false)
+      assert.strictEqual(missing.error.code, 'E_SELECTOR')
+      await driver.close()
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test(
+  'expect assertions pass, fail with E_ASSERT and land in run.log',
+  {
+    concurrency: false,
+  },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'assertions',
+      headless: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const driver = await connectAndPick({ wsUrl, runLogPath: launch.runLogPath })
+      await driver.expect({ testid: 'click-button' }).toBeVisible()
+      await driver.expect({ testid: 'click-button' }).toBeEnabled()
+      await driver.expect({ css: 'button' }).toHaveCount(4)
+      await driver.expect({ testid: 'name-input' }).toHaveAttribute('placeholder', /enter/i)
+      await driver.click({ testid: 'click-button' })
+      await driver.expect({ css: 'h1' }).toHaveText('Select a folder')
+      await driver.expect({ testid: 'name-input' }).toHaveValue('clicked')
+      await driver.expect({ testid: 'missing' }).toBeHidden({ timeoutMs: 500 })
+
+      await assert.rejects(
+        driver.expect({ css: 'h1' }).toContainText('nope', { timeoutMs: 300 }),
+        (error) => {
+          assert.strictEqual(error.code, 'E_ASSERT')
+          assert.strictEqual(error.details.assertion, 'toContainText')
+          assert.strictEqual(error.details.expected, 'nope')
+          assert.strictEqual(error.details.actual, 'Select a folder')
+          assert.strictEqual(error.details.count, 1)
+          return true
+        },
+      )
+      await driver.close()
+
+      const passed = await runBrowserTool('assert', {
+        wsUrl,
+        css: 'h1',
+        assertion: 'toHaveText',
+        expected: { regex: '^select', flags: 'i' },
+      })
+      assert.strictEqual(passed.ok, true)
+      assert.strictEqual(passed.data.actual, 'Select a folder')
+      const failed = await runBrowserTool('assert', {
+        wsUrl,
+        testid: 'hover-output',
+        assertion: 'toHaveText',
+        expected: 'hovered',
+        timeoutMs: 300,
+      })
+      assert.strictEqual(failed.ok, false)
+      assert.strictEqual(failed.error.code, 'E_ASSERT')
+
+      const runLog = await readFile(launch.runLogPath, 'utf-8')
+      assert.match(runLog, /\[assert\] \[info\] toHaveText passed/)
+      assert.match(runLog, /\[assert\] \[error\] toContainText failed .*actual=Select a folder/)
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test('failed actions leave a failure bundle with near misses', { concurrency: false }, async () => {
+  await buildOnce()
+  const { launchElectron, connectAndPick } = await loadLib()
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'failure-bundles',
+    headless: true,
+  })
+
+  try {
+    const driver = await connectAndPick({
+      wsUrl: launch.wsUrl,
+      runLogPath: launch.runLogPath,
+      failureBundles: true,
+    })
+    const runDir = path.dirname(launch.runLogPath)
+
+    await assert.rejects(driver.click({ testid: 'click-buton', timeoutMs: 500 }), (error) => {
+      assert.strictEqual(error.code, 'E_SELECTOR')
+      const { bundle } = error.details
+      assert.strictEqual(bundle.dir, path.join(runDir, 'failures', '1'))
+      assert.deepStrictEqual(bundle.candidates[0].selector, { testid: 'click-button' })
+      assert.strictEqual(bundle.title, 'Mini App')
+      return true
+    })
+    for (const file of ['screenshot.png', 'dom.html', 'selectors.json', 'failure.json']) {
+      await access(path.join(runDir, 'failures', '1', file))
+    }
+    const summary = JSON.parse(
+      await readFile(path.join(runDir, 'failures', '1', 'failure.json'), 'utf-8'),
+    )
+    assert.strictEqual(summary.action, 'click')
+    assert.strictEqual(summary.scope, 'page')
+    assert.match(
+      await readFile(path.join(runDir, 'failures', '1', 'dom.html'), 'utf-8'),
+      /hover-target/,
+    )
+
+    await assert.rejects(driver.waitText('hovred me', 300), (error) => {
+      assert.strictEqual(error.code, 'E_WAIT_TIMEOUT')
+      assert.strictEqual(error.details.bundle.dir, path.join(runDir, 'failures', '2'))
+      assert.ok(
+        error.details.bundle.candidates.some((candidate) => candidate.matched === 'hover me'),
+      )
+      return true
+    })
+    await driver.close()
+
+    const cli = await runBrowserTool('click', {
+      wsUrl: launch.wsUrl,
+      testid: 'nope',
+      timeoutMs: 300,
+      failureBundle: true,
+      artifactPrefix: 'failure-bundles',
+    })
+    assert.strictEqual(cli.ok, false)
+    const cliBundle = cli.error.details.error.details.bundle
+    assert.ok(cliBundle.dir.endsWith(path.join('failure-bundles', 'failures', '3')))
+
+    const runLog = await readFile(launch.runLogPath, 'utf-8')
+    assert.match(runLog, /\[failure\] \[error\] click failed code=E_SELECTOR/)
+    assert.match(runLog, /\[failure\] \[error\] wait-text failed code=E_WAIT_TIMEOUT/)
+  } finally {
+    await launch.quit()
+  }
+})
+
+test(
+  'pointer actions: double/right click, drag, mouse and wheel',
+  { concurrency: false },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'pointer',
+      headless: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const driver = await connectAndPick({ wsUrl })
+      await driver.page.goto(pathToFileURL(path.join(root, 'fixtures/pointer.html')).href)
+      const output = { testid: 'pointer-output' }
+
+      await driver.dblclick({ testid: 'dbl-target' })
+      await driver.expect(output).toHaveText('double-clicked')
+      await driver.rightClick({ testid: 'menu-target', modifiers: ['Shift'] })
+      await driver.expect(output).toHaveText('context-menu shift=true')
+
+      await driver.dragTo({ testid: 'item-a' }, { testid: 'item-c' })
+      await driver.expect({ testid: 'list' }).toHaveText('b c a')
+
+      const start = await driver.mouse.move(10, 20, { relativeTo: { testid: 'pad' } })
+      await driver.mouse.down()
+      await driver.mouse.move(start.x + 50, start.y + 30, { steps: 5 })
+      await driver.mouse.up()
+      await driver.expect({ testid: 'pad-output' }).toHaveText('10,20->60,50')
+
+      await driver.wheel({ deltaY: 200 }, { testid: 'scroller' })
+      await driver.waitForValue(
+        () => document.querySelector('[data-testid="scroller"]').scrollTop || null,
+        { timeoutMs: 5_000 },
+      )
+      await driver.close()
+
+      const menu = await runBrowserTool('right-click', { wsUrl, testid: 'menu-target' })
+      assert.deepStrictEqual(menu, { ok: true, data: { rightClicked: true } })
+      const drag = await runBrowserTool('drag', {
+        wsUrl,
+        source: { testid: 'item-b' },
+        target: { testid: 'item-a' },
+      })
+      assert.deepStrictEqual(drag, { ok: true, data: { dragged: true } })
+      const moved = await runBrowserTool('mouse-move', { wsUrl, x: 1, y: 2 })
+      assert.deepStrictEqual(moved.data, { moved: true, x: 1, y: 2 })
+      const down = await runBrowserTool('mouse-down', { wsUrl })
+      assert.strictEqual(down.ok, false)
+      assert.strictEqual(down.error.code, 'E_INTERNAL')
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test(
+  'application and context menus can be listed and clicked',
+  { concurrency: false },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'menus',
+      headless: true,
+      inspect: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const driver = await connectAndPick({ wsUrl, runLogPath: launch.runLogPath })
+      const tracked = () => driver.evalInMain(() => Boolean(globalThis.__eatMenuTracker__))
+      assert.strictEqual(await tracked(), false, 'connecting leaves Menu.popup alone')
+
+      const menu = await driver.getMenu()
+      assert.strictEqual(await tracked(), true)
+      assert.deepStrictEqual(
+        menu.map((item) => item.label),
+        ['&File', 'View'],
+      )
+      const exportItem = menu[0].submenu[0]
+      assert.deepStrictEqual(exportItem.submenu[0], {
+        label: 'PDF',
+        type: 'normal',
+        enabled: true,
+        visible: true,
+        accelerator: 'CmdOrCtrl+Shift+E',
+      })
+      assert.strictEqual(exportItem.submenu[1].enabled, false)
+      assert.strictEqual(menu[0].submenu[2].role, 'quit')
+
+      assert.deepStrictEqual(await driver.clickMenu('File > Export > PDF'), {
+        path: ['File', 'Export', 'PDF'],
+      })
+      assert.strictEqual(await driver.evalInMain(() => globalThis.lastMenuAction), 'export-pdf')
+      assert.deepStrictEqual(await driver.clickMenu(['View', 'show-sidebar']), {
+        path: ['View', 'Show Sidebar'],
+        checked: false,
+      })
+      await assert.rejects(driver.clickMenu('File > Export > HTML'), (error) => {
+        assert.strictEqual(error.code, 'E_SELECTOR')
+        assert.strictEqual(error.details.reason, 'disabled')
+        return true
+      })
+      await assert.rejects(driver.clickMenu('File > Import'), (error) => {
+        assert.strictEqual(error.details.reason, 'not-found')
+        assert.deepStrictEqual(error.details.options, ['Export', 'Quit'])
+        return true
+      })
+
+      await driver.evalInPreload(() => globalThis.ipcRenderer.invoke('eat-context-menu'))
+      const context = await driver.getMenu({ context: true })
+      assert.deepStrictEqual(
+        context.map((item) => item.label),
+        ['Copy Link', 'Inspect'],
+      )
+      await driver.clickMenu('Copy Link', { context: true })
+      assert.strictEqual(await driver.evalInMain(() => globalThis.lastMenuAction), 'copy-link')
+      await driver.close()
+
+      const listed = await runBrowserTool('menu-list', { wsUrl })
+      assert.strictEqual(listed.data.items[1].submenu[0].checked, false)
+      const clicked = await runBrowserTool('menu-click', { wsUrl, path: 'View > Show Sidebar' })
+      assert.deepStrictEqual(clicked.data, {
+        clicked: true,
+        path: ['View', 'Show Sidebar'],
+        checked: true,
+      })
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test(
+  'dialog stubs answer queued responses and reject unexpected dialogs',
+  {
+    concurrency: false,
+  },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'dialogs',
+      headless: true,
+      inspect: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const driver = await connectAndPick({ wsUrl, runLogPath: launch.runLogPath })
+      const invoke = (channel) =>
+        driver.evalInPreload(
+          (name) =>
+            globalThis.ipcRenderer.invoke(name).then(
+              (value) => ({ value }),
+              (error) => ({ error: error.message }),
+            ),
+          channel,
+        )
+
+      assert.deepStrictEqual(
+        await driver.stubDialogs([
+          { dialog: 'open', filePaths: ['/tmp/project'] },
+          { dialog: 'message', response: 1 },
+        ]),
+        { pending: 2 },
+      )
+      assert.deepStrictEqual(await invoke('eat-open-dialog'), {
+        value: { canceled: false, filePaths: ['/tmp/project'] },
+      })
+      assert.deepStrictEqual(await invoke('eat-message-box'), {
+        value: { response: 1, checkboxChecked: false },
+      })
+      const unexpected = await invoke('eat-open-dialog')
+      assert.match(unexpected.error, /Unexpected dialog\.showOpenDialog/)
+
+      const { calls, pending } = await driver.getDialogCalls()
+      assert.deepStrictEqual(pending, [])
+      assert.deepStrictEqual(
+        calls.map((call) => [call.method, call.unexpected === true]),
+        [
+          ['showOpenDialog', false],
+          ['showMessageBox', false],
+          ['showOpenDialog', true],
+        ],
+      )
+      assert.strictEqual(calls[0].options.title, 'Pick a folder')
+      await driver.close()
+
+      const queued = await runBrowserTool('dialog-stub', {
+        wsUrl,
+        responses: [{ dialog: 'open', canceled: true }],
+      })
+      assert.deepStrictEqual(queued.data, { pending: 1 })
+      const listed = await runBrowserTool('dialog-calls', { wsUrl })
+      assert.strictEqual(listed.data.calls.length, 3)
+      const restored = await runBrowserTool('dialog-restore', { wsUrl })
+      assert.deepStrictEqual(restored.data, { restored: true })
+
+      const runLog = await readFile(launch.runLogPath, 'utf-8')
+      assert.match(runLog, /\[dialog\] \[info\] dialog-stubbed method=showOpenDialog/)
+      assert.match(runLog, /\[dialog\] \[error\] dialog-unexpected method=showOpenDialog/)
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test(
+  'main-process IPC traces share ids with the renderer and handle stubs replace replies',
+  {
+    concurrency: false,
+  },
+  async () => {
+    await buildOnce()
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'ipc-main',
+      headless: true,
+      inspect: true,
+    })
+
+    try {
+      const wsUrl = launch.wsUrl
+      const driver = await connectAndPick({ wsUrl, runLogPath: launch.runLogPath })
+      await driver.waitForBridge()
+      const invoke = (channel, arg) =>
+        driver.evalInPreload(
+          ([name, value]) =>
+            globalThis.ipcRenderer.invoke(name, value).then(
+              (result) => ({ result }),
+              (error) => ({ error: error.message }),
+            ),
+          [channel, arg],
+        )
+
+      const hooks = await driver.traceMainIpc({ maxPayloadChars: 60 })
+      assert.deepStrictEqual(hooks, { handles: true, existingHandles: true, sends: true })
+      assert.deepStrictEqual(await invoke('eat-ping', { user: 'ada', password: 'hunter2' }), {
+        result: 'pong:[object Object]',
+      })
+      await invoke('eat-ping', 'x'.repeat(100))
+
+      const restore = await driver.stubIpcHandle('eat-ping', { result: 'stubbed' })
+      assert.deepStrictEqual(await invoke('eat-ping', 'hi'), { result: 'stubbed' })
+      await driver.stubIpcHandle('eat-missing', { error: 'offline' })
+      assert.match((await invoke('eat-missing')).error, /offline/)
+      await restore()
+      assert.deepStrictEqual(await invoke('eat-ping', 'hi'), { result: 'pong:hi' })
+      assert.strictEqual(await driver.clearIpcStubs(), 1)
+      assert.match((await invoke('eat-missing')).error, /No handler registered/)
+
+      await new Promise((resolve) => setTimeout(resolve, 300))
+      await driver.close()
+
+      const stubbed = await runBrowserTool('ipc-stub', { wsUrl, channel: 'eat-ping', result: 42 })
+      assert.deepStrictEqual(stubbed.data, { stubbed: 'eat-ping' })
+      const cleared = await runBrowserTool('ipc-stub-clear', { wsUrl })
+      assert.deepStrictEqual(cleared.data, { cleared: 1 })
+
+      const runLog = await readFile(launch.runLogPath, 'utf-8')
+      const ids = (side) =>
+        Array.from(
+          runLog.matchAll(new RegExp(`ipc-trace side=${side} .*?channel=eat-ping id=(\\S+)`, 'g')),
+          (match) => match[1],
+        )
+      assert.ok(ids('renderer').length >= 3)
+      assert.deepStrictEqual(ids('main').slice(0, 3), ids('renderer').slice(0, 3))
+      assert.match(runLog, /side=main .*payload=\[\{"user":"ada","password":"\[redacted\]"\}\]/)
+      assert.doesNotMatch(runLog, /hunter2/)
+      assert.match(runLog, /payload=\["x{58}…\(\+44 chars\)/)
+      assert.match(
+        runLog,
+        /side=main .*kind=handle channel=eat-ping .*result="stubbed" stubbed=true/,
+      )
+      assert.match(
+        runLog,
+        /\[ipc\] \[error\] ipc-trace side=main .*channel=eat-missing .*error=offline/,
+      )
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test('driver mocks requests from a mock file across reloads', { concurrency: false }, async () => {
+  await buildOnce()
+  const { launchElectron, connectAndPick } = await loadLib()
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), 'e2e-mocks-'))
+  await writeFile(path.join(tmpDir, 'user.json'), JSON.stringify({ name: 'from file' }))
+  const mockFile = path.join(tmpDir, 'mocks.json')
+  await writeFile(
+    mockFile,
+    JSON.stringify({
+      mocks: [
+        { url: '**/api/user', method: 'GET', bodyFile: 'user.json' },
+        { urlRegex: '/api/items\\?page=\\d+$', status: 201, body: { items: [1, 2] } },
+      ],
+    }),
+  )
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'network-mocks',
+    headless: true,
+  })
+
+  try {
+    const driver = await connectAndPick({ wsUrl: launch.wsUrl, runLogPath: launch.runLogPath })
+    await driver.loadMocks(mockFile)
+    const unroute = await driver.route('**/api/ping', { body: 'pong' })
+    const callApi = () =>
+      driver.evalInRendererMainWorld(async () => {
+        const user = await fetch('http://backend.test/api/user').then((res) => res.json())
+        const items = await fetch('http://backend.test/api/items?page=2')
+        const ping = await fetch('http://backend.test/api/ping').then((res) => res.text())
+        return { user, itemsStatus: items.status, items: await items.json(), ping }
+      })
+
+    assert.deepStrictEqual(await callApi(), {
+      user: { name: 'from file' },
+      itemsStatus: 201,
+      items: { items: [1, 2] },
+      ping: 'pong',
+    })
+
+    await driver.page.reload()
+    await driver.waitText('click button')
+    const afterReload = await callApi()
+    assert.strictEqual(afterReload.user.name, 'from file', 'mocks survive reloads')
+
+    await unroute()
+    assert.strictEqual(await driver.clearRoutes(), 2)
+    await driver.close()
+
+    const runLog = await readFile(launch.runLogPath, 'utf-8')
+    assert.match(runLog, /\[network\] \[info\] mocked .*url=http:\/\/backend\.test\/api\/user/)
+    assert.match(runLog, /mocks-loaded/)
+  } finally {
+    await launch.quit()
+  }
+})
+
+test('browser-tools serve keeps one driver across commands', { concurrency: false }, async () => {
+  await buildOnce()
+  const { launchElectron } = await loadLib()
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'cli-serve',
+    headless: true,
+  })
+  const { serve, ready } = await startServe(launch.wsUrl, 'cli-serve')
+
+  try {
+    assert.strictEqual(ready.ok, true)
+
+    const launchJson = JSON.parse(await readFile(launch.launchFile, 'utf-8'))
+    assert.strictEqual(launchJson.daemon.socketPath, ready.data.socketPath)
+
+    const wsUrl = launch.wsUrl
+    const artifactPrefix = 'cli-serve'
+    await runBrowserTool('switch-window', {
+      wsUrl,
+      artifactPrefix,
+      pick: { titleContains: 'Mini' },
+    })
+    await runBrowserTool('click', { wsUrl, artifactPrefix, testid: 'click-button' })
+    const waited = await runBrowserTool('wait-text', {
+      wsUrl,
+      artifactPrefix,
+      text: 'Select a folder',
+      timeoutMs: 15000,
+    })
+    assert.strictEqual(waited.ok, true)
+
+    const runLog = await readFile(launch.runLogPath, 'utf-8')
+    const connects = runLog.match(/driver-connected/g) ?? []
+    assert.strictEqual(connects.length, 1, 'daemon reuses a single CDP connection')
+
+    const recording = await runBrowserTool('record-network-start', { wsUrl, artifactPrefix })
+    assert.strictEqual(recording.ok, true)
+    await runBrowserTool('click', { wsUrl, artifactPrefix, testid: 'click-button' })
+    const recorded = await runBrowserTool('record-network-stop', { wsUrl, artifactPrefix })
+    assert.strictEqual(recorded.data.path, recording.data.path)
+    await access(recorded.data.path)
+    const again = await runBrowserTool('record-network-stop', { wsUrl, artifactPrefix })
+    assert.strictEqual(again.ok, false)
+    assert.strictEqual(again.error.code, 'E_NOT_RECORDING')
+
+    const casting = await runBrowserTool('screencast-start', { wsUrl, artifactPrefix, fps: 10 })
+    assert.strictEqual(casting.data.dir, path.join(root, '.e2e-artifacts/cli-serve/screencast'))
+    await runBrowserTool('type', { wsUrl, artifactPrefix, testid: 'name-input', value: 'cast' })
+    await runBrowserTool('press', { wsUrl, artifactPrefix, key: 'Enter', testid: 'name-input' })
+    const cast = await runBrowserTool('screencast-stop', { wsUrl, artifactPrefix })
+    assert.ok(cast.data.frames >= 1, 'screencast captured frames')
+    const castManifest = JSON.parse(await readFile(cast.data.manifest, 'utf-8'))
+    assert.deepStrictEqual(
+      castManifest.actions.map((mark) => mark.action),
+      ['type', 'press'],
+    )
+    await access(cast.data.html)
+    const noCast = await runBrowserTool('screencast-stop', { wsUrl, artifactPrefix })
+    assert.strictEqual(noCast.error.code, 'E_NOT_RECORDING')
+
+    const stopped = await runBrowserTool('serve-stop', { artifactPrefix })
+    assert.strictEqual(stopped.data.stopped, true)
+    if (serve.exitCode === null) await new Promise((resolve) => serve.once('exit', resolve))
+    const afterStop = JSON.parse(await readFile(launch.launchFile, 'utf-8'))
+    assert.strictEqual(afterStop.daemon, undefined)
+  } finally {
+    serve.kill()
+    await launch.quit()
+  }
+})
+
+test(
+  'trace-start and trace-stop record one trace across daemon commands',
+  {
+    concurrency: false,
+  },
+  async () => {
+    await buildOnce()
+    const { launchElectron } = await loadLib()
+    const artifactPrefix = 'cli-trace'
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix,
+      headless: true,
+    })
+    const wsUrl = launch.wsUrl
+
+    try {
+      const direct = await runBrowserTool('trace-start', { wsUrl, artifactPrefix })
+      assert.strictEqual(direct.ok, false, 'a one-shot driver cannot hold a trace')
+      const nothing = await runBrowserTool('trace-stop', { wsUrl, artifactPrefix })
+      assert.strictEqual(nothing.ok, false)
+      assert.strictEqual(nothing.error.code, 'E_NOT_RECORDING')
+
+      const { serve } = await startServe(wsUrl, artifactPrefix)
+      try {
+        await runBrowserTool('switch-window', {
+          wsUrl,
+          artifactPrefix,
+          pick: { titleContains: 'Mini' },
+        })
+        const tracing = await runBrowserTool('trace-start', { wsUrl, artifactPrefix })
+        assert.strictEqual(tracing.data.path, path.join(root, '.e2e-artifacts/cli-trace/trace.zip'))
+        await runBrowserTool('hover', { wsUrl, artifactPrefix, testid: 'hover-target' })
+        await runBrowserTool('wait-text', {
+          wsUrl,
+          artifactPrefix,
+          text: 'hovered',
+          timeoutMs: 10000,
+        })
+        const traced = await runBrowserTool('trace-stop', { wsUrl, artifactPrefix })
+        assert.strictEqual(traced.data.path, tracing.data.path)
+        assert.ok((await stat(traced.data.path)).size > 0, 'one trace spans several commands')
+
+        const again = await runBrowserTool('trace-stop', { wsUrl, artifactPrefix })
+        assert.strictEqual(again.error.code, 'E_NOT_RECORDING')
+        await runBrowserTool('serve-stop', { artifactPrefix })
+      } finally {
+        serve.kill()
+      }
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test('daemon requests time out when the socket never answers', async () => {
+  await buildOnce()
+  const { createServer } = await import('node:net')
+  const { sendToDaemon } = await import(pathToFileURL(path.join(root, 'dist/cli/daemon.js')).href)
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'eat-daemon-'))
+  const socketPath = path.join(dir, 'wedged.sock')
+  const accepted = []
+  const server = createServer((socket) => accepted.push(socket))
+  await new Promise((resolve) => server.listen(socketPath, resolve))
+
+  try {
+    const started = Date.now()
+    await assert.rejects(
+      sendToDaemon(socketPath, { sub: 'click', payload: { testid: 'x' } }, 300),
+      (error) => error.code === 'E_WAIT_TIMEOUT' && error.details.sub === 'click',
+    )
+    assert.ok(Date.now() - started < 5000, 'gave up instead of hanging')
+    assert.strictEqual(accepted.length, 1)
+    assert.strictEqual(
+      await sendToDaemon(path.join(dir, 'missing.sock'), { sub: 'click', payload: {} }),
+      null,
+    )
+  } finally {
+    for (const socket of accepted) socket.destroy()
+    await new Promise((resolve) => server.close(resolve))
+  }
+})
+
+test('main-process records wait in a bounded buffer until a driver drains them', async () => {
+  await buildOnce()
+  const { runInNewContext } = await import('node:vm')
+  const { drainMainRecordsInMain, mainRecorderSource, mainRecordLimit, mainRecordPrefix } =
+    await import(pathToFileURL(path.join(root, 'dist/lib/main-records.js')).href)
+  const pings = []
+  const sandbox = { console: { info: (line) => pings.push(line) } }
+  const record = runInNewContext(mainRecorderSource(), sandbox)
+  // Serialized like `evalInMain` results, which come back by value.
+  const drain = () =>
+    JSON.parse(runInNewContext(`JSON.stringify((${drainMainRecordsInMain.toString()})())`, sandbox))
+
+  record('dialog', { method: 'showOpenDialog' }, true)
+  assert.deepStrictEqual(pings, [`${mainRecordPrefix} 1`])
+  const first = drain()
+  assert.deepStrictEqual(
+    first.records.map((r) => [r.kind, r.entry.method, r.failed, r.seq]),
+    [['dialog', 'showOpenDialog', true, 1]],
+  )
+  assert.deepStrictEqual(drain().records, [], 'a drained record is handed out once')
+
+  for (let i = 0; i < mainRecordLimit + 3; i += 1) record('ipc', { i }, false)
+  const overflow = drain()
+  assert.strictEqual(overflow.dropped, 3)
+  assert.strictEqual(overflow.records.length, mainRecordLimit)
+  assert.strictEqual(overflow.records[0].entry.i, 3)
+})
+
+test('failure-bundle candidates match global regexes without touching lastIndex', async () => {
+  await buildOnce()
+  const { nearMisses } = await import(
+    pathToFileURL(path.join(root, 'dist/lib/failure-bundle.js')).href
+  )
+  const wanted = /save/gi
+  const list = {
+    testIds: [],
+    roles: [],
+    texts: [{ text: 'Save draft' }, { text: 'Save all' }],
+  }
+  const matched = nearMisses({ text: wanted }, list).map((candidate) => candidate.matched)
+  assert.deepStrictEqual(matched.sort(), ['Save all', 'Save draft'])
+  assert.strictEqual(wanted.lastIndex, 0)
+})
+
+test('fingerprint command lines mask secret-looking flag values', async () => {
+  await buildOnce()
+  const { sanitizeCommandLine } = await import(
+    pathToFileURL(path.join(root, 'dist/lib/fingerprint.js')).href
+  )
+  assert.strictEqual(
+    sanitizeCommandLine('/app/electron . --api-token=abc123 --remote-debugging-port=9222 -auth=x'),
+    '/app/electron . --api-token=*** --remote-debugging-port=9222 -auth=***',
+  )
+  assert.strictEqual(
+    sanitizeCommandLine('/app/electron --api-token abc123 --password hunter2 --verbose .'),
+    '/app/electron --api-token *** --password *** --verbose .',
+  )
+  assert.strictEqual(
+    sanitizeCommandLine('/app/electron --use-keychain --inspect=0'),
+    '/app/electron --use-keychain --inspect=0',
+  )
+})
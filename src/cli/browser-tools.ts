@@ -1,15 +1,18 @@
-import { writeFile } from 'node:fs/promises'
 import * as path from 'node:path'
-import { chromium } from 'playwright'
-import { ensureArtifactPath, prepareOrReuseArtifactRun } from '../lib/artifacts.js'
-import { buildLocator, connectAndPick } from '../lib/playwright-driver.js'
-import { openRunLogger } from '../lib/run-log.js'
-import type { ArtifactOptions, Selector } from '../lib/types.js'
+import { touchDriverActivity } from '../lib/launch-file.js'
+import { PlaywrightDriver } from '../lib/playwright-driver.js'
+import {
+  type DriverSource,
+  type JsonInput,
+  prepareRun,
+  runCommand,
+  toCommandError,
+} from './commands.js'
+import { DriverDaemon, findDaemonSocket, sendToDaemon, shutdownSub } from './daemon.js'
 import { guardBrokenPipes, safeWrite } from './safe-stdio.js'
 
 guardBrokenPipes()
 
-type JsonInput = Record<string, unknown>
 type ParseResult =
   | { ok: true; sub: string; payload: JsonInput }
   | {
@@ -54,38 +57,43 @@ const parseArg = (): ParseResult => {
   return { ok: true, sub, payload }
 }
 
-const defaultTimeout = 10_000
-const artifactOpts = (payload: JsonInput): ArtifactOptions => {
-  const opts: ArtifactOptions = {}
-  if (typeof payload.artifactDir === 'string') {
-    opts.artifactDir = payload.artifactDir as string
-  }
-  if (typeof payload.artifactPrefix === 'string') {
-    opts.artifactPrefix = payload.artifactPrefix as string
-  }
-  return opts
+const localSource: DriverSource = {
+  acquire: async (payload) => {
+    const run = await prepareRun(payload)
+    const runLogPath = path.join(run.dir, 'run.log')
+    const wsUrl = typeof payload.wsUrl === 'string' ? payload.wsUrl : ''
+    const driver = await PlaywrightDriver.create({
+      wsUrl,
+      runLogPath,
+      failureBundles: payload.failureBundle === true,
+    })
+    await touchDriverActivity(run.dir).catch(() => {})
+    return { run, driver }
+  },
+  release: (driver) => driver.close(),
+  persistent: false,
 }
 
-const prepareRun = async (payload: JsonInput) =>
-  prepareOrReuseArtifactRun({ ...artifactOpts(payload), reuseLast: true })
-
-const listWindows = async (wsUrl: string) => {
-  const browser = await chromium.connectOverCDP(wsUrl)
-  const contexts = browser.contexts()
-  const pages = contexts.flatMap((ctx) => ctx.pages())
-
-  const pagesOut = []
-  for (const page of pages) {
-    const title = await page.title().catch(() => '')
-    pagesOut.push({
-      targetId: null,
-      url: page.url(),
-      title,
-    })
+const serve = async (payload: JsonInput) => {
+  const wsUrl = typeof payload.wsUrl === 'string' ? payload.wsUrl : ''
+  if (!wsUrl) throw new Error('wsUrl required')
+  const run = await prepareRun(payload)
+  const daemon = new DriverDaemon(run, () => process.exit(), {
+    failureBundles: payload.failureBundle === true,
+  })
+  await daemon.start(wsUrl)
+  const shutdown = () => {
+    daemon.stop().catch(() => process.exit(1))
   }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+  printJson({ ok: true, data: { socketPath: daemon.socketPath, pid: process.pid, wsUrl } })
+}
 
-  await browser.close()
-  return pagesOut
+const serveStop = async (payload: JsonInput) => {
+  const socketPath = await findDaemonSocket(payload)
+  const response = socketPath ? await sendToDaemon(socketPath, { sub: shutdownSub, payload }) : null
+  printJson(response ?? { ok: true, data: { stopped: false } })
 }
 
 const run = async () => {
@@ -96,190 +104,28 @@ const run = async () => {
     return
   }
   const { sub, payload } = parsed
-  const wsUrl = typeof payload.wsUrl === 'string' ? payload.wsUrl : ''
-  const timeoutMs =
-    typeof payload.timeoutMs === 'number' && payload.timeoutMs > 0
-      ? payload.timeoutMs
-      : defaultTimeout
-  const connectWithRun = async () => {
-    const run = await prepareRun(payload)
-    const runLogPath = path.join(run.dir, 'run.log')
-    const driver = await connectAndPick({ wsUrl, runLogPath })
-    return { run, runLogPath, driver }
-  }
 
   try {
-    switch (sub) {
-      case 'list-windows': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const pages = await listWindows(wsUrl)
-        printJson({ ok: true, data: { pages } })
-        return
-      }
-      case 'list-selectors': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const max = typeof payload.max === 'number' ? (payload.max as number) : undefined
-        const { driver } = await connectWithRun()
-        const selectors = await driver.listSelectors(max)
-        await driver.close()
-        printJson({ ok: true, data: selectors })
-        return
-      }
-      case 'wait-text': {
-        if (!wsUrl || typeof payload.text !== 'string') throw new Error('wsUrl and text required')
-        const { driver } = await connectWithRun()
-        await driver.waitText(payload.text as string, timeoutMs)
-        await driver.close()
-        printJson({ ok: true, data: { visible: true } })
-        return
-      }
-      case 'press': {
-        if (!wsUrl || typeof payload.key !== 'string') throw new Error('wsUrl and key required')
-        const { driver } = await connectWithRun()
-        const { key, ...sel } = payload as Selector & { key: string }
-        await driver.press(key, Object.keys(sel).length ? (sel as Selector) : undefined)
-        await driver.close()
-        printJson({ ok: true, data: { pressed: key } })
-        return
-      }
-      case 'hover': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const { driver } = await connectWithRun()
-        await driver.hover(payload as Selector)
-        await driver.close()
-        printJson({ ok: true, data: { hovered: true } })
-        return
-      }
-      case 'scroll-into-view': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const { driver } = await connectWithRun()
-        await driver.scrollIntoView(payload as Selector)
-        await driver.close()
-        printJson({ ok: true, data: { scrolled: true } })
-        return
-      }
-      case 'upload': {
-        if (!wsUrl || typeof payload.filePath !== 'string') {
-          throw new Error('wsUrl and filePath required')
-        }
-        const { driver } = await connectWithRun()
-        const { filePath, ...sel } = payload as Selector & { filePath: string }
-        await driver.upload(sel, filePath)
-        await driver.close()
-        printJson({ ok: true, data: { uploaded: filePath } })
-        return
-      }
-      case 'click': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const { driver } = await connectWithRun()
-        await driver.click(payload as Selector)
-        await driver.close()
-        printJson({ ok: true, data: { clicked: true } })
-        return
-      }
-      case 'type': {
-        const hasValue = typeof payload.value === 'string'
-        if (!wsUrl || !hasValue) {
-          throw new Error('wsUrl and value required')
-        }
-        const { driver } = await connectWithRun()
-        await driver.type(payload as Selector & { value: string; clearFirst?: boolean })
-        await driver.close()
-        printJson({ ok: true, data: { typed: true } })
-        return
-      }
-      case 'get-dom': {
-        if (!wsUrl || typeof payload.as !== 'string') throw new Error('wsUrl and as required')
-        const { driver } = await connectWithRun()
-        const locatorSel = payload as Selector & { as: 'innerHTML' | 'textContent' }
-        const page = driver.page
-        if (!page) throw new Error('E_NO_PAGE')
-        const locator = buildLocator(page, locatorSel)
-        const timeout =
-          typeof locatorSel.timeoutMs === 'number' ? { timeout: locatorSel.timeoutMs } : undefined
-        const value =
-          locatorSel.as === 'innerHTML'
-            ? await locator.innerHTML(timeout)
-            : await locator.textContent(timeout)
-        await driver.close()
-        printJson({ ok: true, data: { value: value ?? '' } })
-        return
-      }
-      case 'screenshot': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const fullPage = payload.fullPage !== false
-        const { run, driver } = await connectWithRun()
-        const pathArg =
-          typeof payload.path === 'string'
-            ? (payload.path as string)
-            : path.join(run.dir, 'page.png')
-        await ensureArtifactPath(pathArg)
-        await driver.screenshot(pathArg, fullPage)
-        await driver.close()
-        printJson({ ok: true, data: { path: pathArg } })
-        return
-      }
-      case 'snapshot-globals': {
-        if (!wsUrl || !Array.isArray((payload as JsonInput).names)) {
-          throw new Error('wsUrl and names[] required')
-        }
-        const names = (payload as { names: unknown }).names as string[]
-        const { driver } = await connectWithRun()
-        const snapshots = await driver.snapshotGlobals(names)
-        await driver.close()
-        printJson({ ok: true, data: { snapshots } })
-        return
-      }
-      case 'dump-dom': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const sel = typeof payload.selector === 'string' ? (payload.selector as string) : undefined
-        const truncateAt =
-          typeof payload.truncateAt === 'number' ? (payload.truncateAt as number) : undefined
-        const { run, driver } = await connectWithRun()
-        const out = await driver.dumpDOM(sel, truncateAt)
-        await driver.close()
-        const outPath = path.join(run.dir, 'dom-dump.html')
-        await ensureArtifactPath(outPath)
-        await writeFile(outPath, out.html, 'utf-8')
-        const logger = openRunLogger(run.dir)
-        logger.log('domdump', 'info', 'dom-dump', { path: outPath, selector: sel })
-        logger.close()
+    if (sub === 'serve') return await serve(payload)
+    if (sub === 'serve-stop') return await serveStop(payload)
 
-        printJson({ ok: true, data: out })
-        return
-      }
-      case 'wait-for-window': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const pick =
-          typeof payload.pick === 'object' && payload.pick
-            ? (payload.pick as { titleContains?: string; urlIncludes?: string })
-            : undefined
-        const { driver } = await connectWithRun()
-        const win = await driver.waitForWindow(timeoutMs, pick)
-        await driver.close()
-        printJson({ ok: true, data: win })
-        return
-      }
-      case 'switch-window': {
-        if (!wsUrl) throw new Error('wsUrl required')
-        const pick =
-          typeof payload.pick === 'object' && payload.pick
-            ? (payload.pick as { titleContains?: string; urlIncludes?: string })
-            : {}
-        const { driver } = await connectWithRun()
-        const win = await driver.switchWindow(pick)
-        await driver.close()
-        printJson({ ok: true, data: win })
-        return
-      }
-      default: {
-        fail('E_INTERNAL', `Unknown subcommand: ${sub}`)
+    // Forward to a running daemon when one is registered for this run; fall back to a direct
+    // connection when it is gone or the caller opted out.
+    if (payload.daemon !== false) {
+      const socketPath = await findDaemonSocket(payload)
+      const response = socketPath ? await sendToDaemon(socketPath, { sub, payload }) : null
+      if (response) {
+        if (!response.ok) process.exitCode = 1
+        printJson(response)
         return
       }
     }
+
+    const data = await runCommand(sub, payload, localSource)
+    printJson({ ok: true, data })
   } catch (error) {
-    const code = (error as { code?: string }).code ?? 'E_INTERNAL'
-    fail(code, 'Unexpected error', { error })
+    const { code, message, details } = toCommandError(error)
+    fail(code, message, details)
   }
 }
 
@@ -0,0 +1,633 @@
+import { writeFile } from 'node:fs/promises'
+import * as path from 'node:path'
+import { chromium } from 'playwright'
+import {
+  type ArtifactRun,
+  ensureArtifactPath,
+  prepareOrReuseArtifactRun,
+} from '../lib/artifacts.js'
+import { discoverElectron } from '../lib/discover.js'
+import { AppError, type PlaywrightDriver } from '../lib/playwright-driver.js'
+import { openRunLogger } from '../lib/run-log.js'
+import type {
+  ArtifactOptions,
+  DialogResponse,
+  DomScanOptions,
+  DragOptions,
+  Expectation,
+  MockRule,
+  MouseButton,
+  NetworkRecordOptions,
+  PointerOptions,
+  Selector,
+  TextMatch,
+} from '../lib/types.js'
+
+export type JsonInput = Record<string, unknown>
+
+/**
+ * Where a command gets its driver from: a fresh CDP connection per call (local) or a
+ * long-lived driver owned by the `serve` daemon.
+ */
+export type DriverSource = {
+  acquire: (payload: JsonInput) => Promise<{ run: ArtifactRun; driver: PlaywrightDriver }>
+  release: (driver: PlaywrightDriver) => Promise<void>
+  /** True when the driver outlives the command, so state such as a network recording survives. */
+  persistent: boolean
+}
+
+export class UnknownSubcommandError extends Error {
+  code = 'E_INTERNAL' as const
+}
+
+export type CommandError = { message: string; code: string; details?: Record<string, unknown> }
+
+/**
+ * Shapes a thrown error the way the CLI prints it, so local and daemon runs stay identical.
+ */
+export const toCommandError = (error: unknown): CommandError => {
+  if (error instanceof UnknownSubcommandError) {
+    return { message: error.message, code: error.code }
+  }
+  const code = (error as { code?: string }).code ?? 'E_INTERNAL'
+  return { message: 'Unexpected error', code, details: { error } }
+}
+
+const defaultTimeout = 10_000
+
+export const artifactOpts = (payload: JsonInput): ArtifactOptions => {
+  const opts: ArtifactOptions = {}
+  if (typeof payload.artifactDir === 'string') {
+    opts.artifactDir = payload.artifactDir as string
+  }
+  if (typeof payload.artifactPrefix === 'string') {
+    opts.artifactPrefix = payload.artifactPrefix as string
+  }
+  return opts
+}
+
+export const prepareRun = async (payload: JsonInput) =>
+  prepareOrReuseArtifactRun({ ...artifactOpts(payload), reuseLast: true })
+
+const listWindows = async (wsUrl: string) => {
+  const browser = await chromium.connectOverCDP(wsUrl)
+  const contexts = browser.contexts()
+  const pages = contexts.flatMap((ctx) => ctx.pages())
+
+  const pagesOut = []
+  for (const page of pages) {
+    const title = await page.title().catch(() => '')
+    pagesOut.push({
+      targetId: null,
+      url: page.url(),
+      title,
+    })
+  }
+
+  await browser.close()
+  return pagesOut
+}
+
+const stringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : undefined
+
+const networkRecordOpts = (payload: JsonInput): NetworkRecordOptions => {
+  const opts: NetworkRecordOptions = {}
+  if (typeof payload.path === 'string') opts.path = payload.path
+  if (typeof payload.maxBodyBytes === 'number') opts.maxBodyBytes = payload.maxBodyBytes
+  const include = stringList(payload.include)
+  if (include) opts.include = include
+  const exclude = stringList(payload.exclude)
+  if (exclude) opts.exclude = exclude
+  return opts
+}
+
+const textMatch = (value: unknown, assertion: string): TextMatch => {
+  if (typeof value === 'string') return value
+  if (
+    value &&
+    typeof value === 'object' &&
+    typeof (value as { regex?: unknown }).regex === 'string'
+  ) {
+    return value as TextMatch
+  }
+  throw new Error(`${assertion} needs \`expected\` as a string or { regex, flags? }`)
+}
+
+const runAssertion = (expectation: Expectation, payload: JsonInput) => {
+  const assertion = payload.assertion as string
+  switch (assertion) {
+    case 'toBeVisible':
+      return expectation.toBeVisible()
+    case 'toBeHidden':
+      return expectation.toBeHidden()
+    case 'toHaveText':
+      return expectation.toHaveText(textMatch(payload.expected, assertion))
+    case 'toContainText':
+      return expectation.toContainText(textMatch(payload.expected, assertion))
+    case 'toHaveCount':
+      if (typeof payload.expected !== 'number') {
+        throw new Error('toHaveCount needs `expected` as a number')
+      }
+      return expectation.toHaveCount(payload.expected)
+    case 'toHaveAttribute':
+      if (typeof payload.name !== 'string') throw new Error('toHaveAttribute needs `name`')
+      return expectation.toHaveAttribute(
+        payload.name,
+        payload.expected === undefined ? undefined : textMatch(payload.expected, assertion),
+      )
+    case 'toHaveValue':
+      return expectation.toHaveValue(textMatch(payload.expected, assertion))
+    case 'toBeEnabled':
+      return expectation.toBeEnabled()
+    case 'toBeChecked':
+      return expectation.toBeChecked({ checked: payload.expected !== false })
+    default:
+      throw new Error(`Unknown assertion: ${assertion}`)
+  }
+}
+
+const isObject = (value: unknown): value is JsonInput =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+/** True when the payload carries a locator field, i.e. it targets an element. */
+const hasSelector = (payload: JsonInput) =>
+  [
+    'ref',
+    'testid',
+    'role',
+    'text',
+    'label',
+    'placeholder',
+    'altText',
+    'title',
+    'css',
+    'xpath',
+  ].some((key) => payload[key] !== undefined)
+
+const domScanOpts = (payload: JsonInput): DomScanOptions => ({
+  frames: payload.frames === true,
+  shadow: payload.shadow === true,
+})
+
+/**
+ * Runs one driver-backed subcommand and returns its `data` payload. Throws on failure.
+ */
+export const runCommand = async (
+  sub: string,
+  payload: JsonInput,
+  source: DriverSource,
+): Promise<unknown> => {
+  const wsUrl = typeof payload.wsUrl === 'string' ? payload.wsUrl : ''
+  const timeoutMs =
+    typeof payload.timeoutMs === 'number' && payload.timeoutMs > 0
+      ? payload.timeoutMs
+      : defaultTimeout
+  const connectWithRun = () => source.acquire(payload)
+
+  switch (sub) {
+    case 'discover': {
+      const ports = payload.ports
+      const apps = await discoverElectron({
+        ports:
+          ports === false
+            ? false
+            : Array.isArray(ports) && ports.length === 2
+              ? [Number(ports[0]), Number(ports[1])]
+              : undefined,
+        userDataDirs: Array.isArray(payload.userDataDirs)
+          ? (payload.userDataDirs as string[])
+          : undefined,
+        includeNonElectron: payload.includeNonElectron === true,
+      })
+      return { apps }
+    }
+    case 'list-windows': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const pages = await listWindows(wsUrl)
+      return { pages }
+    }
+    case 'list-selectors': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const max = typeof payload.max === 'number' ? (payload.max as number) : undefined
+      const { driver } = await connectWithRun()
+      const selectors = await driver.listSelectors(max, domScanOpts(payload))
+      await source.release(driver)
+      return selectors
+    }
+    case 'list-webviews': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const webviews = await driver.listWebviews()
+      await source.release(driver)
+      return { webviews }
+    }
+    case 'observe': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const elements = await driver.observe(
+        typeof payload.max === 'number' ? { max: payload.max } : {},
+      )
+      await source.release(driver)
+      return { elements }
+    }
+    case 'aria-snapshot': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const nodes = await driver.ariaSnapshot(
+        hasSelector(payload) ? (payload as Selector) : undefined,
+      )
+      await source.release(driver)
+      return { nodes }
+    }
+    case 'wait-text': {
+      if (!wsUrl || typeof payload.text !== 'string') throw new Error('wsUrl and text required')
+      const { driver } = await connectWithRun()
+      await driver.waitText(payload.text as string, timeoutMs)
+      await source.release(driver)
+      return { visible: true }
+    }
+    case 'press': {
+      if (!wsUrl || typeof payload.key !== 'string') throw new Error('wsUrl and key required')
+      const { driver } = await connectWithRun()
+      const { key, ...sel } = payload as Selector & { key: string }
+      await driver.press(key, Object.keys(sel).length ? (sel as Selector) : undefined)
+      await source.release(driver)
+      return { pressed: key }
+    }
+    case 'hover': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      await driver.hover(payload as Selector)
+      await source.release(driver)
+      return { hovered: true }
+    }
+    case 'dblclick': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      await driver.dblclick(payload as Selector & PointerOptions)
+      await source.release(driver)
+      return { dblclicked: true }
+    }
+    case 'right-click': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      if (payload.button !== undefined) {
+        throw new Error('right-click does not take button; it always uses the right button')
+      }
+      const { driver } = await connectWithRun()
+      await driver.rightClick(payload as Selector & Omit<PointerOptions, 'button'>)
+      await source.release(driver)
+      return { rightClicked: true }
+    }
+    case 'drag': {
+      if (!wsUrl || !isObject(payload.source) || !isObject(payload.target)) {
+        throw new Error('wsUrl, source and target required')
+      }
+      const { driver } = await connectWithRun()
+      const { sourcePosition, targetPosition } = payload as DragOptions
+      await driver.dragTo(payload.source as Selector, payload.target as Selector, {
+        sourcePosition,
+        targetPosition,
+      })
+      await source.release(driver)
+      return { dragged: true }
+    }
+    case 'mouse-move': {
+      if (!wsUrl || typeof payload.x !== 'number' || typeof payload.y !== 'number') {
+        throw new Error('wsUrl, x and y required')
+      }
+      const { driver } = await connectWithRun()
+      const point = await driver.mouse.move(payload.x, payload.y, {
+        relativeTo: isObject(payload.relativeTo) ? (payload.relativeTo as Selector) : undefined,
+        steps: typeof payload.steps === 'number' ? payload.steps : undefined,
+      })
+      await source.release(driver)
+      return { moved: true, ...point }
+    }
+    case 'mouse-down':
+    case 'mouse-up': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      // A per-call driver would forget the pressed button before the next command.
+      if (!source.persistent) {
+        throw new Error(`${sub} needs a running \`browser-tools serve\` daemon`)
+      }
+      const { driver } = await connectWithRun()
+      const opts = {
+        button: payload.button as MouseButton | undefined,
+        clickCount: typeof payload.clickCount === 'number' ? payload.clickCount : undefined,
+      }
+      if (sub === 'mouse-down') await driver.mouse.down(opts)
+      else await driver.mouse.up(opts)
+      await source.release(driver)
+      return { [sub === 'mouse-down' ? 'pressed' : 'released']: opts.button ?? 'left' }
+    }
+    case 'wheel': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const { deltaX, deltaY, ...sel } = payload as Selector & {
+        deltaX?: number
+        deltaY?: number
+      }
+      await driver.wheel({ deltaX, deltaY }, hasSelector(sel) ? (sel as Selector) : undefined)
+      await source.release(driver)
+      return { wheeled: true, deltaX: deltaX ?? 0, deltaY: deltaY ?? 0 }
+    }
+    case 'scroll-into-view': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      await driver.scrollIntoView(payload as Selector)
+      await source.release(driver)
+      return { scrolled: true }
+    }
+    case 'upload': {
+      if (!wsUrl || typeof payload.filePath !== 'string') {
+        throw new Error('wsUrl and filePath required')
+      }
+      const { driver } = await connectWithRun()
+      const { filePath, ...sel } = payload as Selector & { filePath: string }
+      await driver.upload(sel, filePath)
+      await source.release(driver)
+      return { uploaded: filePath }
+    }
+    case 'click': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      await driver.click(payload as Selector)
+      await source.release(driver)
+      return { clicked: true }
+    }
+    case 'type': {
+      const hasValue = typeof payload.value === 'string'
+      if (!wsUrl || !hasValue) {
+        throw new Error('wsUrl and value required')
+      }
+      const { driver } = await connectWithRun()
+      await driver.type(payload as Selector & { value: string; clearFirst?: boolean })
+      await source.release(driver)
+      return { typed: true }
+    }
+    case 'assert': {
+      if (!wsUrl || typeof payload.assertion !== 'string') {
+        throw new Error('wsUrl and assertion required')
+      }
+      const { driver } = await connectWithRun()
+      const result = await runAssertion(driver.expect(payload as Selector), payload)
+      await source.release(driver)
+      return { passed: true, assertion: payload.assertion, ...result }
+    }
+    case 'get-dom': {
+      if (!wsUrl || typeof payload.as !== 'string') throw new Error('wsUrl and as required')
+      const { driver } = await connectWithRun()
+      const locatorSel = payload as Selector & { as: 'innerHTML' | 'textContent' }
+      const value = await driver.getDom(locatorSel, locatorSel.as)
+      await source.release(driver)
+      return { value }
+    }
+    case 'screenshot': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const fullPage = payload.fullPage !== false
+      const { run, driver } = await connectWithRun()
+      const pathArg =
+        typeof payload.path === 'string' ? (payload.path as string) : path.join(run.dir, 'page.png')
+      await ensureArtifactPath(pathArg)
+      await driver.screenshot(pathArg, fullPage)
+      await source.release(driver)
+      return { path: pathArg }
+    }
+    case 'snapshot-globals': {
+      if (!wsUrl || !Array.isArray((payload as JsonInput).names)) {
+        throw new Error('wsUrl and names[] required')
+      }
+      const names = (payload as { names: unknown }).names as string[]
+      const { driver } = await connectWithRun()
+      const snapshots = await driver.snapshotGlobals(names)
+      await source.release(driver)
+      return { snapshots }
+    }
+    case 'dump-dom': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const sel = typeof payload.selector === 'string' ? (payload.selector as string) : undefined
+      const truncateAt =
+        typeof payload.truncateAt === 'number' ? (payload.truncateAt as number) : undefined
+      const { run, driver } = await connectWithRun()
+      const out = await driver.dumpDOM(sel, truncateAt, domScanOpts(payload))
+      await source.release(driver)
+      const outPath = path.join(run.dir, 'dom-dump.html')
+      await ensureArtifactPath(outPath)
+      await writeFile(outPath, out.html, 'utf-8')
+      const logger = openRunLogger(run.dir)
+      logger.log('domdump', 'info', 'dom-dump', { path: outPath, selector: sel })
+      logger.close()
+      return out
+    }
+    case 'wait-for-window': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const pick =
+        typeof payload.pick === 'object' && payload.pick
+          ? (payload.pick as { titleContains?: string; urlIncludes?: string })
+          : undefined
+      const { driver } = await connectWithRun()
+      const win = await driver.waitForWindow(timeoutMs, pick)
+      await source.release(driver)
+      return win
+    }
+    case 'switch-window': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const pick =
+        typeof payload.pick === 'object' && payload.pick
+          ? (payload.pick as { titleContains?: string; urlIncludes?: string })
+          : {}
+      const { driver } = await connectWithRun()
+      const win = await driver.switchWindow(pick)
+      await source.release(driver)
+      return win
+    }
+    case 'dialog-stub': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      if (payload.responses !== undefined && !Array.isArray(payload.responses)) {
+        throw new Error('responses must be an array')
+      }
+      const { driver } = await connectWithRun()
+      const stubbed = await driver.stubDialogs((payload.responses ?? []) as DialogResponse[])
+      await source.release(driver)
+      return stubbed
+    }
+    case 'dialog-calls': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const calls = await driver.getDialogCalls()
+      await source.release(driver)
+      return calls
+    }
+    case 'dialog-restore': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const restored = await driver.restoreDialogs()
+      await source.release(driver)
+      return { restored }
+    }
+    case 'menu-list': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const items = await driver.getMenu({ context: payload.context === true })
+      await source.release(driver)
+      return { items }
+    }
+    case 'menu-click': {
+      const menuPath = stringList(payload.path) ?? payload.path
+      if (!wsUrl || !(typeof menuPath === 'string' || Array.isArray(menuPath))) {
+        throw new Error('wsUrl and path required')
+      }
+      const { driver } = await connectWithRun()
+      const clicked = await driver.clickMenu(menuPath, { context: payload.context === true })
+      await source.release(driver)
+      return { clicked: true, ...clicked }
+    }
+    case 'ipc-trace-main': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const redactKeys = stringList(payload.redactKeys)
+      if (payload.redactKeys !== undefined && !redactKeys) {
+        throw new Error('redactKeys must be an array of strings')
+      }
+      const { driver } = await connectWithRun()
+      const hooks = await driver.traceMainIpc({
+        maxPayloadChars:
+          typeof payload.maxPayloadChars === 'number' ? payload.maxPayloadChars : undefined,
+        redactKeys,
+      })
+      await source.release(driver)
+      return { tracing: true, ...hooks }
+    }
+    case 'ipc-stub': {
+      const channel = payload.channel
+      if (!wsUrl || typeof channel !== 'string') throw new Error('wsUrl and channel required')
+      if (payload.error !== undefined && typeof payload.error !== 'string') {
+        throw new Error('error must be a string')
+      }
+      const { driver } = await connectWithRun()
+      await driver.stubIpcHandle(
+        channel,
+        typeof payload.error === 'string' ? { error: payload.error } : { result: payload.result },
+      )
+      await source.release(driver)
+      return { stubbed: channel }
+    }
+    case 'ipc-stub-clear': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const cleared = await driver.clearIpcStubs(
+        typeof payload.channel === 'string' ? payload.channel : undefined,
+      )
+      await source.release(driver)
+      return { cleared }
+    }
+    case 'record-network-start': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      // A per-call driver would end the recording as soon as the command returns.
+      if (!source.persistent) {
+        throw new Error('record-network-start needs a running `browser-tools serve` daemon')
+      }
+      const { driver } = await connectWithRun()
+      const started = await driver.startNetworkRecording(networkRecordOpts(payload))
+      await source.release(driver)
+      return started
+    }
+    case 'record-network-stop': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const saved = await driver.stopNetworkRecording()
+      await source.release(driver)
+      if (!saved) {
+        throw new AppError(
+          'E_NOT_RECORDING',
+          'No active network recording; start it through the daemon with record-network-start',
+        )
+      }
+      return saved
+    }
+    case 'trace-start': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      // The trace lives in the daemon's driver so it spans every command until trace-stop.
+      if (!source.persistent) {
+        throw new Error('trace-start needs a running `browser-tools serve` daemon')
+      }
+      const { driver } = await connectWithRun()
+      const started = await driver.startTracing({
+        ...(typeof payload.path === 'string' ? { path: payload.path } : {}),
+        ...(typeof payload.title === 'string' ? { title: payload.title } : {}),
+        ...(payload.screenshots === false ? { screenshots: false } : {}),
+        ...(payload.snapshots === false ? { snapshots: false } : {}),
+        ...(payload.sources === false ? { sources: false } : {}),
+      })
+      await source.release(driver)
+      return started
+    }
+    case 'trace-stop': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const saved = await driver.stopTracing()
+      await source.release(driver)
+      if (!saved) {
+        throw new AppError(
+          'E_NOT_RECORDING',
+          'No active trace; start it through the daemon with trace-start',
+        )
+      }
+      return saved
+    }
+    case 'screencast-start': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      if (!source.persistent) {
+        throw new Error('screencast-start needs a running `browser-tools serve` daemon')
+      }
+      const { driver } = await connectWithRun()
+      const started = await driver.startScreencast({
+        ...(typeof payload.dir === 'string' ? { dir: payload.dir } : {}),
+        ...(typeof payload.fps === 'number' ? { fps: payload.fps } : {}),
+        ...(typeof payload.maxDurationMs === 'number'
+          ? { maxDurationMs: payload.maxDurationMs }
+          : {}),
+        ...(typeof payload.quality === 'number' ? { quality: payload.quality } : {}),
+        ...(payload.video === false ? { video: false } : {}),
+      })
+      await source.release(driver)
+      return started
+    }
+    case 'screencast-stop': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const saved = await driver.stopScreencast()
+      await source.release(driver)
+      if (!saved) {
+        throw new AppError(
+          'E_NOT_RECORDING',
+          'No active screencast; start it through the daemon with screencast-start',
+        )
+      }
+      return saved
+    }
+    case 'mock': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const file = typeof payload.file === 'string' ? payload.file : undefined
+      const mocks = Array.isArray(payload.mocks) ? (payload.mocks as MockRule[]) : undefined
+      if (!file && !mocks) throw new Error('file or mocks[] required')
+      // Routes die with the driver, so a one-shot connection would mock nothing.
+      if (!source.persistent) throw new Error('mock needs a running `browser-tools serve` daemon')
+      const { driver } = await connectWithRun()
+      await driver.loadMocks(file ?? (mocks as MockRule[]))
+      await source.release(driver)
+      return { loaded: true, source: file ?? 'inline' }
+    }
+    case 'mock-clear': {
+      if (!wsUrl) throw new Error('wsUrl required')
+      const { driver } = await connectWithRun()
+      const cleared = await driver.clearRoutes()
+      await source.release(driver)
+      return { cleared }
+    }
+    default:
+      throw new UnknownSubcommandError(`Unknown subcommand: ${sub}`)
+  }
+}
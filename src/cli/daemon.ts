@@ -0,0 +1,304 @@
+import { createHash } from 'node:crypto'
+import { rm } from 'node:fs/promises'
+import { createConnection, createServer, type Server, type Socket } from 'node:net'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { type ArtifactRun, findArtifactRun } from '../lib/artifacts.js'
+import {
+  launchFilePath,
+  readLaunchFile,
+  touchDriverActivity,
+  updateLaunchFile,
+} from '../lib/launch-file.js'
+import { AppError, PlaywrightDriver } from '../lib/playwright-driver.js'
+import {
+  artifactOpts,
+  type CommandError,
+  type DriverSource,
+  type JsonInput,
+  runCommand,
+  toCommandError,
+} from './commands.js'
+
+export type DaemonRequest = { sub: string; payload: JsonInput }
+export type DaemonResponse = { ok: true; data: unknown } | { ok: false; error: CommandError }
+
+/** Internal request name used by `serve-stop`; never dispatched as a subcommand. */
+export const shutdownSub = '__shutdown'
+
+// Unix socket paths are capped at ~104 bytes, so deep run dirs fall back to the tmp dir.
+const MAX_SOCKET_PATH = 100
+
+export const daemonSocketPath = (runDir: string): string => {
+  const resolved = path.resolve(runDir)
+  const hash = createHash('sha1').update(resolved).digest('hex').slice(0, 12)
+  if (process.platform === 'win32') return `\\\\.\\pipe\\electron-agent-tools-${hash}`
+  const local = path.join(resolved, 'browser-tools.sock')
+  return local.length <= MAX_SOCKET_PATH ? local : path.join(tmpdir(), `eat-${hash}.sock`)
+}
+
+/**
+ * Looks up the daemon socket recorded in the run's launch.json, if any.
+ */
+export const findDaemonSocket = async (payload: JsonInput): Promise<string | null> => {
+  const run = await findArtifactRun(artifactOpts(payload))
+  if (!run) return null
+  const launch = await readLaunchFile(launchFilePath(run.dir))
+  return launch?.daemon?.socketPath ?? null
+}
+
+const isUnreachable = (error: unknown): boolean => {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code
+  return code === 'ENOENT' || code === 'ECONNREFUSED' || code === 'ENOTSOCK'
+}
+
+// A daemon that doesn't accept within this is treated as gone (stale process, full backlog).
+const connectTimeoutMs = 2_000
+// Slack on top of a command's own `timeoutMs` before its answer is given up on.
+const responseMarginMs = 30_000
+
+/** How long a forwarded command may take before the caller (and the daemon's queue) moves on. */
+export const daemonResponseTimeout = (payload: JsonInput): number =>
+  (typeof payload.timeoutMs === 'number' ? payload.timeoutMs : 10_000) + responseMarginMs
+
+/**
+ * Sends one request to a running daemon. Resolves `null` when nothing is listening (or nothing
+ * accepts in time) so callers can fall back to a direct connection; rejects with
+ * `E_WAIT_TIMEOUT` when the daemon accepted but didn't answer within `timeoutMs`.
+ */
+export const sendToDaemon = async (
+  socketPath: string,
+  request: DaemonRequest,
+  timeoutMs: number = daemonResponseTimeout(request.payload),
+): Promise<DaemonResponse | null> =>
+  new Promise((resolve, reject) => {
+    let buffer = ''
+    let connected = false
+    const socket = createConnection(socketPath, () => {
+      connected = true
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        reject(
+          new AppError('E_WAIT_TIMEOUT', `Daemon did not answer within ${timeoutMs}ms`, {
+            socketPath,
+            sub: request.sub,
+            timeoutMs,
+            hint: 'Stop it with `browser-tools serve-stop` or pass "daemon": false.',
+          }),
+        )
+        socket.destroy()
+      }, timeoutMs)
+      socket.write(`${JSON.stringify(request)}\n`)
+    })
+    let timer = setTimeout(() => {
+      resolve(null)
+      socket.destroy()
+    }, connectTimeoutMs)
+    socket.setEncoding('utf-8')
+    socket.on('data', (chunk) => {
+      buffer += chunk
+      const newline = buffer.indexOf('\n')
+      if (newline === -1) return
+      clearTimeout(timer)
+      socket.end()
+      try {
+        resolve(JSON.parse(buffer.slice(0, newline)) as DaemonResponse)
+      } catch (error) {
+        reject(error)
+      }
+    })
+    socket.on('error', (error) => {
+      clearTimeout(timer)
+      if (!connected && isUnreachable(error)) return resolve(null)
+      reject(error)
+    })
+    socket.on('close', () => {
+      clearTimeout(timer)
+      if (connected && !buffer.includes('\n')) {
+        reject(new Error('Daemon closed the connection without a response'))
+      }
+    })
+  })
+
+type DaemonEntry = { driver: PlaywrightDriver; queue: Promise<unknown> }
+
+/**
+ * Long-lived process that keeps one PlaywrightDriver per wsUrl and serves CLI subcommands over a
+ * local socket (newline-delimited JSON, one request per connection).
+ */
+export class DriverDaemon {
+  #run: ArtifactRun
+  #socketPath: string
+  #server: Server | null = null
+  #drivers: Map<string, Promise<DaemonEntry>> = new Map()
+  #stopping: Promise<void> | null = null
+  #onStop: () => void
+  #failureBundles: boolean
+
+  /** `failureBundles` is passed to every driver the daemon connects (see `ConnectOptions`). */
+  constructor(
+    run: ArtifactRun,
+    onStop: () => void = () => {},
+    opts: { failureBundles?: boolean | undefined } = {},
+  ) {
+    this.#run = run
+    this.#socketPath = daemonSocketPath(run.dir)
+    this.#onStop = onStop
+    this.#failureBundles = opts.failureBundles === true
+  }
+
+  get socketPath(): string {
+    return this.#socketPath
+  }
+
+  async start(initialWsUrl?: string): Promise<void> {
+    if (initialWsUrl) await this.#entry(initialWsUrl)
+
+    if (process.platform !== 'win32') await rm(this.#socketPath, { force: true })
+    const server = createServer((socket) => this.#handleConnection(socket))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.#socketPath, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    this.#server = server
+
+    await updateLaunchFile(launchFilePath(this.#run.dir), {
+      daemon: {
+        socketPath: this.#socketPath,
+        pid: process.pid,
+        startedAt: new Date().toISOString(),
+      },
+    })
+  }
+
+  async stop(): Promise<void> {
+    if (!this.#stopping) this.#stopping = this.#doStop()
+    return this.#stopping
+  }
+
+  async #doStop(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      if (!this.#server) return resolve()
+      this.#server.close(() => resolve())
+    })
+    for (const pending of this.#drivers.values()) {
+      try {
+        const { driver } = await pending
+        await driver.close()
+      } catch {}
+    }
+    this.#drivers.clear()
+    if (process.platform !== 'win32') await rm(this.#socketPath, { force: true }).catch(() => {})
+    const launchFile = launchFilePath(this.#run.dir)
+    const launch = await readLaunchFile(launchFile)
+    if (launch?.daemon?.pid === process.pid) {
+      await updateLaunchFile(launchFile, { daemon: undefined }).catch(() => {})
+    }
+    this.#onStop()
+  }
+
+  #entry(wsUrl: string): Promise<DaemonEntry> {
+    const existing = this.#drivers.get(wsUrl)
+    if (existing) return existing
+    const created = PlaywrightDriver.create({
+      wsUrl,
+      runLogPath: path.join(this.#run.dir, 'run.log'),
+      failureBundles: this.#failureBundles,
+    }).then((driver) => {
+      driver.page
+        .context()
+        .browser()
+        ?.on('disconnected', () => this.#forget(wsUrl))
+      return { driver, queue: Promise.resolve() as Promise<unknown> }
+    })
+    created.catch(() => this.#drivers.delete(wsUrl))
+    this.#drivers.set(wsUrl, created)
+    return created
+  }
+
+  #forget(wsUrl: string) {
+    this.#drivers.delete(wsUrl)
+    // Once the last app we were attached to goes away there is nothing left to serve.
+    if (this.#drivers.size === 0) this.stop().catch(() => {})
+  }
+
+  #source(): DriverSource {
+    return {
+      acquire: async (payload) => {
+        const wsUrl = typeof payload.wsUrl === 'string' ? payload.wsUrl : ''
+        const { driver } = await this.#entry(wsUrl)
+        await touchDriverActivity(this.#run.dir).catch(() => {})
+        return { run: this.#run, driver }
+      },
+      release: async () => {},
+      persistent: true,
+    }
+  }
+
+  async #dispatch(request: DaemonRequest): Promise<DaemonResponse> {
+    if (request.sub === shutdownSub) {
+      setImmediate(() => this.stop().catch(() => {}))
+      return { ok: true, data: { stopped: true, socketPath: this.#socketPath } }
+    }
+
+    const wsUrl = typeof request.payload.wsUrl === 'string' ? request.payload.wsUrl : ''
+    const task = async (): Promise<DaemonResponse> => {
+      try {
+        const data = await runCommand(request.sub, request.payload, this.#source())
+        return { ok: true, data }
+      } catch (error) {
+        return { ok: false, error: toCommandError(error) }
+      }
+    }
+    if (!wsUrl) return task()
+
+    // Serialize commands per driver so concurrent callers can't interleave page switches.
+    let entry: DaemonEntry
+    try {
+      entry = await this.#entry(wsUrl)
+    } catch (error) {
+      return { ok: false, error: toCommandError(error) }
+    }
+    const result = entry.queue.then(task, task)
+    // A command that never settles must not hold up the ones queued behind it forever.
+    let timer: NodeJS.Timeout | undefined
+    const deadline = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, daemonResponseTimeout(request.payload))
+      timer.unref()
+    })
+    entry.queue = Promise.race([result, deadline])
+      .catch(() => {})
+      .finally(() => clearTimeout(timer))
+    return result
+  }
+
+  #handleConnection(socket: Socket) {
+    let buffer = ''
+    socket.setEncoding('utf-8')
+    socket.on('error', () => {})
+    socket.on('data', (chunk) => {
+      buffer += chunk
+      const newline = buffer.indexOf('\n')
+      if (newline === -1) return
+      const line = buffer.slice(0, newline)
+      buffer = ''
+      let request: DaemonRequest
+      try {
+        request = JSON.parse(line) as DaemonRequest
+      } catch (error) {
+        const response: DaemonResponse = { ok: false, error: toCommandError(error) }
+        socket.end(`${JSON.stringify(response)}\n`)
+        return
+      }
+      this.#dispatch({ sub: String(request.sub ?? ''), payload: request.payload ?? {} })
+        .then((response) => socket.end(`${JSON.stringify(response)}\n`))
+        .catch((error) => {
+          const response: DaemonResponse = { ok: false, error: toCommandError(error) }
+          socket.end(`${JSON.stringify(response)}\n`)
+        })
+    })
+  }
+}
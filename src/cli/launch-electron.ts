@@ -1,6 +1,26 @@
-import { readFile } from 'node:fs/promises'
-import { launchElectron, terminateTree } from '../lib/launch-electron.js'
-import type { LaunchOptions } from '../lib/types.js'
+import { readFile, rm } from 'node:fs/promises'
+import * as path from 'node:path'
+import {
+  type GracefulChannel,
+  quitPathOf,
+  requestAppQuit,
+  waitForPidExit,
+} from '../lib/graceful-quit.js'
+import { launchElectron, listChildren, terminateTree } from '../lib/launch-electron.js'
+import { type LaunchFileData, readLaunchFile } from '../lib/launch-file.js'
+import { launchPool } from '../lib/launch-pool.js'
+import { disposeProfile } from '../lib/profile.js'
+import { openRunLogger } from '../lib/run-log.js'
+import { findLaunchFiles, isAlive, type RunStatus, readRunStatus } from '../lib/run-status.js'
+import type {
+  LaunchOptions,
+  LaunchResult,
+  PoolManifest,
+  ProfileOptions,
+  ReadyProbe,
+  SuperviseOptions,
+} from '../lib/types.js'
+import { stopXvfb } from '../lib/xvfb.js'
 import { guardBrokenPipes, safeWrite } from './safe-stdio.js'
 
 guardBrokenPipes()
@@ -50,27 +70,217 @@ const parseArg = (): ParseResult => {
   return { ok: true, sub, payload }
 }
 
-const readLaunchFile = async (
-  maybePath?: unknown,
-): Promise<{ pid?: number; electronPid?: number } | null> => {
-  const launchFile = typeof maybePath === 'string' ? maybePath : undefined
-  if (!launchFile) return null
+const quitPid = async (pid: number) => terminateTree(pid, { timeoutMs: 4000, logger: debugLog })
+
+const debugLog = (...args: unknown[]) => {
+  if (process.env.DEBUG_LAUNCH) {
+    console.error('[launch-electron]', ...args)
+  }
+}
+
+const stopSupervisor = async (pid: number, timeoutMs = 8000) => {
+  if (pid === process.pid || !isAlive(pid)) return
   try {
-    const raw = await readFile(launchFile, 'utf-8')
-    return JSON.parse(raw) as { pid?: number; electronPid?: number }
+    process.kill(pid, 'SIGTERM')
   } catch {
-    return null
+    return
   }
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline && isAlive(pid)) {
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+  debugLog('supervisor stopped', { pid, alive: isAlive(pid) })
 }
 
-const quitPid = async (pid: number) => terminateTree(pid, { timeoutMs: 4000, logger: debugLog })
+/**
+ * Stops everything a launch.json points at: supervisor first (so it doesn't restart the app),
+ * then the process tree, then the profile and any Xvfb server launchElectron provisioned.
+ */
+const stopLaunch = async (
+  launch: LaunchFileData | null,
+  rootPid: number,
+  electronPid: number | undefined,
+) => {
+  // A supervised start owns the app; let it shut down cleanly instead of restarting it.
+  if (typeof launch?.supervisorPid === 'number') {
+    await stopSupervisor(launch.supervisorPid)
+  }
 
-const debugLog = (...args: unknown[]) => {
-  if (process.env.DEBUG_LAUNCH) {
-    console.error('[launch-electron]', ...args)
+  const rootOk = await quitPid(rootPid)
+  const electronOk = !electronPid || electronPid === rootPid ? true : await quitPid(electronPid)
+
+  debugLog('quit', { rootPid, electronPid, rootOk, electronOk })
+  if (!rootOk || !electronOk) {
+    throw Object.assign(new Error('Failed to quit process'), { code: 'E_SPAWN' })
+  }
+  if (launch?.profile) await disposeProfile(launch.profile).catch(() => {})
+  if (launch?.display?.xvfbPid) await stopXvfb(launch.display.xvfbPid)
+}
+
+const launchOptionsFrom = (payload: JsonInput): LaunchOptions => {
+  const command = typeof payload.command === 'string' ? payload.command : ''
+  if (!command) throw new Error('command required')
+
+  const args = Array.isArray(payload.args)
+    ? (payload.args as string[])
+    : typeof payload.args === 'string'
+      ? (payload.args as string).split(' ').filter(Boolean)
+      : []
+
+  return {
+    command,
+    args,
+    cwd: typeof payload.cwd === 'string' ? payload.cwd : undefined,
+    env:
+      typeof payload.env === 'object' && payload.env
+        ? (payload.env as Record<string, string>)
+        : undefined,
+    headless: payload.headless === true,
+    cdpPort: typeof payload.cdpPort === 'number' ? payload.cdpPort : undefined,
+    timeoutMs: typeof payload.timeoutMs === 'number' ? payload.timeoutMs : undefined,
+    artifactDir: typeof payload.artifactDir === 'string' ? payload.artifactDir : undefined,
+    artifactPrefix: typeof payload.artifactPrefix === 'string' ? payload.artifactPrefix : undefined,
+    inspect: typeof payload.inspect === 'number' ? payload.inspect : payload.inspect === true,
+    // A plain `start` exits right away; only a supervised one is around to keep tapping.
+    tapMainConsole: Boolean(payload.supervise),
+    display:
+      payload.display === 'auto' || payload.display === 'xvfb' || payload.display === 'inherit'
+        ? payload.display
+        : undefined,
+    profile:
+      typeof payload.profile === 'object' && payload.profile
+        ? (payload.profile as ProfileOptions)
+        : payload.profile !== false,
+    supervise:
+      typeof payload.supervise === 'object' && payload.supervise
+        ? (payload.supervise as SuperviseOptions)
+        : payload.supervise === true,
+    ready:
+      Array.isArray(payload.ready) || (typeof payload.ready === 'object' && payload.ready)
+        ? (payload.ready as ReadyProbe | ReadyProbe[])
+        : undefined,
+    readyTimeoutMs: typeof payload.readyTimeoutMs === 'number' ? payload.readyTimeoutMs : undefined,
+  } satisfies LaunchOptions
+}
+
+/**
+ * `quit` for one run: optional graceful request, then the signal ladder and cleanup.
+ */
+const quitRun = async (
+  launch: LaunchFileData | null,
+  rootPid: number,
+  electronPid: number | undefined,
+  payload: JsonInput,
+) => {
+  let gracefulVia: GracefulChannel | null = null
+  let exited = false
+  if (payload.graceful === true) {
+    gracefulVia = await requestAppQuit({
+      inspectorUrl: launch?.inspectorUrl,
+      wsUrl: launch?.wsUrl,
+    })
+    const timeoutMs = typeof payload.timeoutMs === 'number' ? payload.timeoutMs : 5_000
+    exited = gracefulVia !== null && (await waitForPidExit(electronPid ?? rootPid, timeoutMs))
+  }
+  const quitPath = quitPathOf(gracefulVia, exited)
+
+  await stopLaunch(launch, rootPid, electronPid)
+  // A supervisor writes its own run-end; otherwise nobody else is left to close the log.
+  if (launch?.runLogPath && typeof launch.supervisorPid !== 'number') {
+    const logger = openRunLogger(path.dirname(launch.runLogPath), path.basename(launch.runLogPath))
+    logger.log('system', 'info', 'run-end', {
+      pid: rootPid,
+      electronPid,
+      quitPath,
+      gracefulVia: gracefulVia ?? undefined,
+      escalated: payload.graceful === true && !exited ? true : undefined,
+    })
+    logger.close()
+  }
+  return { quit: true, pid: rootPid, electronPid: electronPid ?? null, quitPath, gracefulVia }
+}
+
+type GcReason = 'dead' | 'unreachable' | 'idle'
+
+const artifactDirOf = (payload: JsonInput) =>
+  typeof payload.artifactDir === 'string' ? payload.artifactDir : undefined
+
+type GcPolicy = { unreachable: boolean; idleMs: number | null }
+
+/**
+ * A run is garbage when its app is gone (or its pid now belongs to something else). Live apps
+ * are only collected when the caller opts in: `unreachable` for apps that stopped answering
+ * CDP, `idleMs` for runs no driver or daemon has used for that long.
+ */
+const gcReason = (status: RunStatus, policy: GcPolicy): GcReason | null => {
+  if (status.state === 'dead') return 'dead'
+  if (policy.unreachable && status.state === 'unreachable') return 'unreachable'
+  if (policy.idleMs !== null && status.idleMs !== null && status.idleMs > policy.idleMs) {
+    return 'idle'
+  }
+  return null
+}
+
+/**
+ * Terminates whatever is left of a run and removes its launch.json so it no longer shows up
+ * in `status`. Returns the pids that were still alive.
+ */
+const collectRun = async (status: RunStatus): Promise<number[]> => {
+  const { launch } = status
+  const roots = [
+    status.pidAlive ? status.pid : null,
+    status.electronAlive ? status.electronPid : null,
+  ]
+    .filter((pid): pid is number => typeof pid === 'number')
+    .filter((pid, index, all) => all.indexOf(pid) === index)
+  // Collect descendants up front: once the root dies they are re-parented and can't be found.
+  const descendants = (await Promise.all(roots.map((pid) => listChildren(pid)))).flat()
+
+  if (typeof launch.supervisorPid === 'number') await stopSupervisor(launch.supervisorPid)
+  if (launch.daemon && isAlive(launch.daemon.pid)) {
+    try {
+      process.kill(launch.daemon.pid, 'SIGTERM')
+    } catch {}
+  }
+  for (const pid of roots) await quitPid(pid)
+  for (const child of descendants) {
+    if (isAlive(child.pid)) await quitPid(child.pid)
   }
+  if (launch.profile) await disposeProfile(launch.profile).catch(() => {})
+  if (launch.display?.xvfbPid) await stopXvfb(launch.display.xvfbPid)
+  await rm(status.launchFile, { force: true })
+  debugLog('gc', { runDir: status.runDir, roots, descendants: descendants.map((c) => c.pid) })
+  return roots
 }
 
+/**
+ * Keeps a supervised `start` in the foreground: prints lifecycle events as JSON lines and exits
+ * once the app is gone for good or the process is asked to stop.
+ */
+const superviseInForeground = async (result: LaunchResult) =>
+  new Promise<void>((resolve) => {
+    const keepAlive = setInterval(() => {}, 60_000)
+    const done = () => {
+      clearInterval(keepAlive)
+      resolve()
+    }
+    const stop = () => {
+      result
+        .quit()
+        .catch((error) => debugLog('supervised quit failed', { message: (error as Error).message }))
+        .finally(done)
+    }
+    process.once('SIGINT', stop)
+    process.once('SIGTERM', stop)
+    result.onLifecycle((event) => {
+      const printable =
+        event.type === 'restart-failed' ? { ...event, error: event.error.message } : event
+      printJson({ ok: true, event: printable })
+      if (event.type === 'exit' || event.type === 'restart-failed') stop()
+      if (event.type === 'crash' && !event.willRestart) stop()
+    })
+  })
+
 const run = async () => {
   const parsed = parseArg()
   if (!parsed.ok) {
@@ -84,31 +294,7 @@ const run = async () => {
     switch (sub) {
       case 'start':
       case 'launch': {
-        const command = typeof payload.command === 'string' ? payload.command : ''
-        if (!command) throw new Error('command required')
-
-        const args = Array.isArray(payload.args)
-          ? (payload.args as string[])
-          : typeof payload.args === 'string'
-            ? (payload.args as string).split(' ').filter(Boolean)
-            : []
-
-        const opts = {
-          command,
-          args,
-          cwd: typeof payload.cwd === 'string' ? payload.cwd : undefined,
-          env:
-            typeof payload.env === 'object' && payload.env
-              ? (payload.env as Record<string, string>)
-              : undefined,
-          headless: payload.headless === true,
-          cdpPort: typeof payload.cdpPort === 'number' ? payload.cdpPort : undefined,
-          timeoutMs: typeof payload.timeoutMs === 'number' ? payload.timeoutMs : undefined,
-          artifactDir: typeof payload.artifactDir === 'string' ? payload.artifactDir : undefined,
-          artifactPrefix:
-            typeof payload.artifactPrefix === 'string' ? payload.artifactPrefix : undefined,
-        } as const satisfies LaunchOptions
-
+        const opts = launchOptionsFrom(payload)
         const result = await launchElectron(opts)
         debugLog('started', { pid: result.pid, wsUrl: result.wsUrl })
         printJson({
@@ -121,13 +307,18 @@ const run = async () => {
             artifactDir: result.artifactDir,
             runLogPath: result.runLogPath,
             launchFile: result.launchFile,
+            userDataDir: result.userDataDir ?? null,
+            inspectorUrl: result.inspectorUrl ?? null,
+            display: result.display ?? null,
             quitHint: { pid: result.electronPid ?? result.pid, launchFile: result.launchFile },
           },
         })
+        if (opts.supervise) await superviseInForeground(result)
         return
       }
       case 'quit': {
-        const launch = await readLaunchFile(payload.launchFile)
+        const launch =
+          typeof payload.launchFile === 'string' ? await readLaunchFile(payload.launchFile) : null
         const payloadPid = typeof payload.pid === 'number' ? (payload.pid as number) : null
         const rootPid = launch?.pid ?? payloadPid
         if (!rootPid) throw new Error('pid or launchFile required')
@@ -139,18 +330,77 @@ const run = async () => {
               ? (payload.electronPid as number)
               : undefined
 
-        const rootOk = await quitPid(rootPid)
-        const electronOk =
-          !electronPid || electronPid === rootPid ? true : await quitPid(electronPid)
-
-        debugLog('quit', { rootPid, electronPid, rootOk, electronOk })
-        if (!rootOk || !electronOk) {
-          throw Object.assign(new Error('Failed to quit process'), { code: 'E_SPAWN' })
+        printJson({ ok: true, data: await quitRun(launch, rootPid, electronPid, payload) })
+        return
+      }
+      case 'start-pool': {
+        const size = typeof payload.size === 'number' ? payload.size : 0
+        const pool = await launchPool({ ...launchOptionsFrom(payload), size })
+        debugLog('pool started', { id: pool.id, size })
+        printJson({ ok: true, data: { ...pool.manifest, manifestPath: pool.manifestPath } })
+        if (payload.supervise) await Promise.all(pool.instances.map(superviseInForeground))
+        return
+      }
+      case 'quit-pool': {
+        const manifestPath = typeof payload.manifest === 'string' ? payload.manifest : ''
+        if (!manifestPath) throw new Error('manifest required')
+        const manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as PoolManifest
+        const instances = await Promise.all(
+          manifest.instances.map(async (entry) => {
+            const launch = entry.launchFile ? await readLaunchFile(entry.launchFile) : null
+            return quitRun(
+              launch,
+              launch?.pid ?? entry.pid,
+              launch?.electronPid ?? entry.electronPid ?? undefined,
+              payload,
+            )
+          }),
+        )
+        printJson({ ok: true, data: { id: manifest.id, instances } })
+        return
+      }
+      case 'status': {
+        const launchFiles =
+          typeof payload.launchFile === 'string'
+            ? [payload.launchFile]
+            : await findLaunchFiles(artifactDirOf(payload))
+        const runs: RunStatus[] = []
+        for (const file of launchFiles) {
+          const status = await readRunStatus(file)
+          if (status) runs.push(status)
         }
-        printJson({
-          ok: true,
-          data: { quit: true, pid: rootPid, electronPid: electronPid ?? null },
-        })
+        if (typeof payload.launchFile === 'string' && !runs.length) {
+          throw Object.assign(new Error(`Unreadable launch file: ${payload.launchFile}`), {
+            code: 'E_FS',
+          })
+        }
+        printJson({ ok: true, data: { runs: runs.map(({ launch: _launch, ...rest }) => rest) } })
+        return
+      }
+      case 'gc': {
+        const policy: GcPolicy = {
+          unreachable: payload.unreachable === true,
+          idleMs: typeof payload.idleMs === 'number' ? payload.idleMs : null,
+        }
+        const dryRun = payload.dryRun === true
+        const collected: Array<{
+          runDir: string
+          reason: GcReason
+          terminated: number[]
+        }> = []
+        let kept = 0
+        for (const file of await findLaunchFiles(artifactDirOf(payload))) {
+          const status = await readRunStatus(file)
+          if (!status) continue
+          const reason = gcReason(status, policy)
+          if (!reason) {
+            kept += 1
+            continue
+          }
+          const terminated = dryRun ? [] : await collectRun(status)
+          collected.push({ runDir: status.runDir, reason, terminated })
+        }
+        printJson({ ok: true, data: { dryRun, ...policy, collected, kept } })
         return
       }
       default:
@@ -0,0 +1,140 @@
+import type { MenuItemInfo } from './types.js'
+
+/**
+ * Functions evaluated in the Electron main process through `evalInMain`. They are sent as
+ * source text, so they must stay self-contained and only reach Electron through `require`.
+ */
+
+type MainMenuItem = {
+  label: string
+  id?: string
+  role?: string
+  type: MenuItemInfo['type']
+  accelerator?: unknown
+  enabled: boolean
+  visible: boolean
+  checked: boolean
+  submenu?: MainMenu | null
+  click: (event: unknown, window: unknown, webContents: unknown) => void
+}
+
+type MainMenu = {
+  items: MainMenuItem[]
+  popup: (...args: unknown[]) => void
+  closePopup: (...args: unknown[]) => void
+  once: (event: string, listener: () => void) => void
+}
+
+type MenuGlobals = { __eatMenuTracker__?: boolean; __eatContextMenu__?: MainMenu | null }
+
+/** Remembers the context menu that is currently open, so it can be read and clicked. */
+export const trackContextMenusInMain = (): boolean => {
+  const holder = globalThis as MenuGlobals
+  if (holder.__eatMenuTracker__) return true
+  const { Menu } = require('electron') as { Menu: { prototype: MainMenu } }
+  const popup = Menu.prototype.popup
+  Menu.prototype.popup = function (this: MainMenu, ...args: unknown[]) {
+    holder.__eatContextMenu__ = this
+    this.once('menu-will-close', () => {
+      if (holder.__eatContextMenu__ === this) holder.__eatContextMenu__ = null
+    })
+    return popup.apply(this, args)
+  }
+  holder.__eatMenuTracker__ = true
+  return true
+}
+
+/** The application menu (or the open context menu) as a tree; null when there is none. */
+export const readMenuInMain = ({ context }: { context: boolean }): MenuItemInfo[] | null => {
+  const { Menu } = require('electron') as { Menu: { getApplicationMenu: () => MainMenu | null } }
+  const menu = context
+    ? ((globalThis as MenuGlobals).__eatContextMenu__ ?? null)
+    : Menu.getApplicationMenu()
+  if (!menu) return null
+
+  const describe = (item: MainMenuItem): MenuItemInfo => {
+    const info: MenuItemInfo = {
+      label: item.label,
+      type: item.type,
+      enabled: item.enabled,
+      visible: item.visible,
+    }
+    if (item.id) info.id = item.id
+    if (item.role) info.role = item.role
+    if (item.accelerator) info.accelerator = String(item.accelerator)
+    if (item.type === 'checkbox' || item.type === 'radio') info.checked = item.checked
+    if (item.submenu) info.submenu = item.submenu.items.map(describe)
+    return info
+  }
+  return menu.items.map(describe)
+}
+
+export type MenuClickResult =
+  | { ok: true; path: string[]; checked?: boolean }
+  | { ok: false; reason: 'no-menu' | 'not-found' | 'disabled'; at: string[]; options: string[] }
+
+/**
+ * Walks `path` by label (mnemonic `&` ignored, case-insensitive), `id` or `role` and clicks the
+ * last item the way a user would, in the window of the renderer target `targetId`.
+ */
+export const clickMenuInMain = ({
+  path,
+  context,
+  targetId,
+}: {
+  path: string[]
+  context: boolean
+  targetId: string | null
+}): MenuClickResult => {
+  const { Menu, BrowserWindow, webContents } = require('electron') as {
+    Menu: { getApplicationMenu: () => MainMenu | null }
+    BrowserWindow: {
+      getFocusedWindow: () => { webContents: unknown } | null
+      getAllWindows: () => Array<{ webContents: unknown }>
+      fromWebContents: (contents: unknown) => { webContents: unknown } | null
+    }
+    webContents: {
+      fromDevToolsTargetId?: (id: string) => unknown
+      getFocusedWebContents: () => unknown
+    }
+  }
+  const root = context
+    ? ((globalThis as MenuGlobals).__eatContextMenu__ ?? null)
+    : Menu.getApplicationMenu()
+  if (!root) return { ok: false, reason: 'no-menu', at: [], options: [] }
+
+  const clean = (label: string) => label.replace(/&(.)/g, '$1').trim().toLowerCase()
+  let items = root.items
+  let item: MainMenuItem | undefined
+  const walked: string[] = []
+  for (const step of path) {
+    const wanted = clean(step)
+    const candidates = items.filter((entry) => entry.visible && entry.type !== 'separator')
+    item = candidates.find(
+      (entry) =>
+        clean(entry.label) === wanted || entry.id === step || entry.role?.toLowerCase() === wanted,
+    )
+    if (!item) {
+      const options = candidates.map((entry) => entry.label.replace(/&(.)/g, '$1'))
+      return { ok: false, reason: 'not-found', at: walked, options }
+    }
+    walked.push(item.label.replace(/&(.)/g, '$1'))
+    if (!item.enabled) return { ok: false, reason: 'disabled', at: walked, options: [] }
+    items = item.submenu?.items ?? []
+  }
+  if (!item) return { ok: false, reason: 'not-found', at: [], options: [] }
+
+  const contents =
+    (targetId && webContents.fromDevToolsTargetId?.(targetId)) ||
+    webContents.getFocusedWebContents()
+  const window: { webContents: unknown } | null =
+    (contents ? BrowserWindow.fromWebContents(contents) : null) ||
+    BrowserWindow.getFocusedWindow() ||
+    BrowserWindow.getAllWindows()[0] ||
+    null
+  item.click({ triggeredByAccelerator: false }, window, contents ?? window?.webContents ?? null)
+  if (context) root.closePopup()
+  const result: MenuClickResult = { ok: true, path: walked }
+  if (item.type === 'checkbox' || item.type === 'radio') result.checked = item.checked
+  return result
+}
@@ -0,0 +1,188 @@
+import type { AriaNode, FrameTarget, Selector } from './types.js'
+
+/** Roles whose inline text in the snapshot is the control's current value. */
+const valueRoles = new Set(['textbox', 'searchbox', 'combobox', 'spinbutton', 'slider'])
+
+type ParsedNode = Omit<AriaNode, 'selector' | 'children'> & { children: ParsedNode[] }
+
+/** What a node's selector matches on: `getByRole(role, { name })` or `getByText(text)`. */
+export type AriaMatchKey =
+  | { kind: 'role'; role: string; name: string }
+  | { kind: 'text'; text: string }
+
+const unquoteValue = (raw: string): string => {
+  if (!raw.startsWith('"')) return raw
+  try {
+    // Playwright escapes control characters as \xNN, which JSON doesn't know.
+    return JSON.parse(raw.replace(/\\x([0-9a-f]{2})/gi, '\\u00$1')) as string
+  } catch {
+    return raw.slice(1, -1)
+  }
+}
+
+/** Splits `role "name" [attr] [attr=v]` (the part before `: value`) into its pieces. */
+const parseKey = (key: string) => {
+  const role = key.match(/^[\w-]+/)?.[0] ?? key
+  let rest = key.slice(role.length)
+  let name: string | undefined
+  if (rest.startsWith(' "')) {
+    let end = 2
+    while (end < rest.length && rest[end] !== '"') end += rest[end] === '\\' ? 2 : 1
+    name = JSON.parse(rest.slice(1, end + 1)) as string
+    rest = rest.slice(end + 1)
+  } else if (rest.startsWith(' /')) {
+    // Names that look like regexes are printed without quotes.
+    const match = rest.match(/^ (\/.*?\/)(?= \[|$)/)
+    if (match?.[1]) {
+      name = match[1]
+      rest = rest.slice(match[0].length)
+    }
+  }
+  const attrs: Record<string, string | true> = {}
+  for (const match of rest.matchAll(/\[([\w-]+)(?:=([^\]]*))?\]/g)) {
+    if (match[1]) attrs[match[1]] = match[2] ?? true
+  }
+  return { role, name, attrs }
+}
+
+const splitLine = (content: string): { key: string; value: string | null } => {
+  if (content.startsWith("'")) {
+    let end = 1
+    while (end < content.length) {
+      if (content[end] === "'" && content[end + 1] === "'") end += 2
+      else if (content[end] === "'") break
+      else end += 1
+    }
+    const key = content.slice(1, end).replace(/''/g, "'")
+    const tail = content.slice(end + 1)
+    return { key, value: tail.startsWith(': ') ? tail.slice(2) : null }
+  }
+  const colon = content.indexOf(': ')
+  if (colon !== -1) return { key: content.slice(0, colon), value: content.slice(colon + 2) }
+  return { key: content.endsWith(':') ? content.slice(0, -1) : content, value: null }
+}
+
+const tristate = (value: string | true | undefined): boolean | 'mixed' | undefined =>
+  value === undefined ? undefined : value === 'mixed' ? 'mixed' : true
+
+/**
+ * Parses the YAML Playwright's `locator.ariaSnapshot()` prints into nodes. Roles, names and states
+ * come from Playwright's own ARIA engine, so they agree with `getByRole`.
+ */
+export const parseAriaSnapshot = (yaml: string): ParsedNode[] => {
+  const roots: ParsedNode[] = []
+  const stack: Array<{ depth: number; node: ParsedNode }> = []
+
+  for (const line of yaml.split('\n')) {
+    const match = line.match(/^(\s*)- (.*)$/)
+    if (!match) continue
+    const depth = (match[1] ?? '').length / 2
+    const content = match[2] ?? ''
+    while (stack.length && (stack[stack.length - 1]?.depth ?? 0) >= depth) stack.pop()
+    const parent = stack[stack.length - 1]?.node
+
+    if (content.startsWith('/')) {
+      const { key, value } = splitLine(content)
+      if (parent) parent.props = { ...parent.props, [key.slice(1)]: unquoteValue(value ?? '') }
+      continue
+    }
+
+    const { key, value } = splitLine(content)
+    let node: ParsedNode
+    if (key === 'text') {
+      node = { role: 'text', text: unquoteValue(value ?? ''), children: [] }
+    } else {
+      const { role, name, attrs } = parseKey(key)
+      node = { role, children: [] }
+      if (name) node.name = name
+      if (value !== null) {
+        if (valueRoles.has(role)) node.value = unquoteValue(value)
+        else node.text = unquoteValue(value)
+      }
+      const checked = tristate(attrs.checked)
+      if (checked !== undefined) node.checked = checked
+      if (attrs.disabled) node.disabled = true
+      if (attrs.expanded) node.expanded = true
+      const pressed = tristate(attrs.pressed)
+      if (pressed !== undefined) node.pressed = pressed
+      if (attrs.selected) node.selected = true
+      if (typeof attrs.level === 'string') node.level = Number(attrs.level)
+    }
+
+    if (parent) parent.children.push(node)
+    else roots.push(node)
+    stack.push({ depth, node })
+  }
+  return roots
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase()
+
+const keyOf = (node: ParsedNode): AriaMatchKey =>
+  node.role === 'text'
+    ? { kind: 'text', text: node.text ?? '' }
+    : { kind: 'role', role: node.role, name: node.name ?? '' }
+
+/** Mirrors Playwright's default (case-insensitive substring) matching for `name` / text. */
+const matchesKey = (node: ParsedNode, key: AriaMatchKey): boolean => {
+  if (key.kind === 'role') {
+    return node.role === key.role && normalize(node.name ?? '').includes(normalize(key.name))
+  }
+  return node.text !== undefined && normalize(node.text).includes(normalize(key.text))
+}
+
+/** The selector `key` stands for, without `nth`; `frame` scopes it to the snapshot's frame. */
+export const keySelector = (key: AriaMatchKey, frame?: FrameTarget): Selector => {
+  const scope = frame ? { frame } : {}
+  if (key.kind === 'text') return { text: key.text, ...scope }
+  const role = { role: key.role as NonNullable<Selector['role']>['role'] }
+  return { role: key.name ? { ...role, name: key.name } : role, ...scope }
+}
+
+/**
+ * Gives every node a selector. `resolve(key)` returns, in document order, the match indices of
+ * that key within `frame` (the whole page without one) that fall inside the snapshot scope; the
+ * j-th local match of a key gets the j-th index as `nth`, so the selector works frame-wide even
+ * for scoped snapshots.
+ */
+export const attachSelectors = async (
+  roots: ParsedNode[],
+  resolve: (key: AriaMatchKey) => Promise<number[]>,
+  frame?: FrameTarget,
+): Promise<AriaNode[]> => {
+  const order: ParsedNode[] = []
+  const walk = (nodes: ParsedNode[]) => {
+    for (const node of nodes) {
+      order.push(node)
+      walk(node.children)
+    }
+  }
+  walk(roots)
+
+  const nthOf = new Map<ParsedNode, number>()
+  const groups = new Map<string, { matches: ParsedNode[]; indices: number[] }>()
+  for (const node of order) {
+    const key = keyOf(node)
+    const id = JSON.stringify(key)
+    let group = groups.get(id)
+    if (!group) {
+      group = {
+        matches: order.filter((other) => matchesKey(other, key)),
+        indices: await resolve(key).catch(() => []),
+      }
+      groups.set(id, group)
+    }
+    const localIndex = group.matches.indexOf(node)
+    nthOf.set(node, group.indices[localIndex] ?? Math.max(localIndex, 0))
+  }
+
+  const build = (node: ParsedNode): AriaNode => {
+    const { children, ...rest } = node
+    return {
+      ...rest,
+      selector: { ...keySelector(keyOf(node), frame), nth: nthOf.get(node) ?? 0 },
+      ...(children.length ? { children: children.map(build) } : {}),
+    }
+  }
+  return roots.map(build)
+}
@@ -1,4 +1,4 @@
-import { mkdir, realpath, rm, symlink } from 'node:fs/promises'
+import { mkdir, realpath, rename, rm, stat, symlink } from 'node:fs/promises'
 import * as path from 'node:path'
 
 import type { ArtifactOptions } from './types.js'
@@ -9,6 +9,15 @@ const safePrefix = () => `${Math.floor(Date.now() / 1000)}`
 
 const markLastRun = async (root: string, dir: string): Promise<void> => {
   const lastRun = path.join(root, 'last-run')
+  // Swap in a fresh link with rename() so concurrent launches never see a missing last-run.
+  const staged = `${lastRun}.${process.pid}-${Math.random().toString(36).slice(2, 8)}`
+  try {
+    await symlink(path.resolve(dir), staged, 'junction')
+    await rename(staged, lastRun)
+    return
+  } catch {
+    await rm(staged, { force: true }).catch(() => {})
+  }
   try {
     await rm(lastRun, { force: true, recursive: true })
     await symlink(path.resolve(dir), lastRun, 'junction')
@@ -17,6 +26,23 @@ const markLastRun = async (root: string, dir: string): Promise<void> => {
   }
 }
 
+/**
+ * Creates `<root>/<base>` exclusively, suffixing `-1`, `-2`, … when a same-second run already
+ * claimed the name.
+ */
+const claimRunDir = async (root: string, base: string): Promise<string> => {
+  await mkdir(root, { recursive: true })
+  for (let attempt = 0; ; attempt += 1) {
+    const prefix = attempt ? `${base}-${attempt}` : base
+    try {
+      await mkdir(path.join(root, prefix))
+      return prefix
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+  }
+}
+
 export type ArtifactRun = { root: string; dir: string; prefix: string }
 
 /**
@@ -24,7 +50,7 @@ export type ArtifactRun = { root: string; dir: string; prefix: string }
  */
 export const prepareArtifactRun = async (opts: ArtifactOptions = {}): Promise<ArtifactRun> => {
   const root = opts.artifactDir ?? defaultDir
-  const prefix = opts.artifactPrefix ?? safePrefix()
+  const prefix = opts.artifactPrefix ?? (await claimRunDir(root, safePrefix()))
   const dir = path.join(root, prefix)
   await mkdir(dir, { recursive: true })
   await markLastRun(root, dir)
@@ -61,8 +87,23 @@ export const prepareOrReuseArtifactRun = async (
   return prepareArtifactRun({ artifactDir: root })
 }
 
+/**
+ * Resolves an existing run (explicit prefix or last-run) without creating anything on disk.
+ */
+export const findArtifactRun = async (opts: ArtifactOptions = {}): Promise<ArtifactRun | null> => {
+  const root = opts.artifactDir ?? defaultDir
+  if (!opts.artifactPrefix) return resolveExistingRun(root)
+  const dir = path.join(root, opts.artifactPrefix)
+  try {
+    await stat(dir)
+    return { root, dir, prefix: opts.artifactPrefix }
+  } catch {
+    return null
+  }
+}
+
 export const ensureArtifactPath = async (targetPath: string): Promise<void> => {
   await mkdir(path.dirname(targetPath), { recursive: true })
 }
 
-export { defaultDir as defaultArtifactDir }
+export { claimRunDir, defaultDir as defaultArtifactDir, safePrefix }
@@ -0,0 +1,103 @@
+import { copyFile, mkdir, rename, writeFile } from 'node:fs/promises'
+import * as path from 'node:path'
+import { type Browser, chromium } from 'playwright'
+
+export type SnapshotRecorder = {
+  /** Copies the most recent screenshot/DOM into `targetDir`; returns the paths that exist. */
+  saveTo(targetDir: string): Promise<{ screenshot?: string; dom?: string }>
+  stop(): Promise<void>
+}
+
+const lastScreenshot = 'last-screenshot.png'
+const lastDom = 'last-dom.html'
+
+/**
+ * Periodically captures the active renderer so there is something to look at after the app
+ * dies (a dead main process can't be screenshotted).
+ */
+export const startSnapshotRecorder = async ({
+  wsUrl,
+  dir,
+  intervalMs,
+}: {
+  wsUrl: string
+  dir: string
+  intervalMs: number
+}): Promise<SnapshotRecorder> => {
+  await mkdir(dir, { recursive: true })
+  let browser: Browser | null = null
+  try {
+    browser = await chromium.connectOverCDP(wsUrl)
+  } catch {
+    browser = null
+  }
+
+  const have = { screenshot: false, dom: false }
+  let busy = false
+  let stopped = false
+
+  const capture = async () => {
+    if (busy || stopped || !browser?.isConnected()) return
+    busy = true
+    try {
+      const page = browser.contexts().flatMap((ctx) => ctx.pages())[0]
+      if (!page) return
+      const shotTmp = path.join(dir, `${lastScreenshot}.tmp`)
+      const domTmp = path.join(dir, `${lastDom}.tmp`)
+      // Write-then-rename so a crash mid-capture never leaves a truncated artifact behind.
+      await page
+        .screenshot({ path: shotTmp, timeout: intervalMs })
+        .then(() => rename(shotTmp, path.join(dir, lastScreenshot)))
+        .then(() => {
+          have.screenshot = true
+        })
+        .catch(() => {})
+      await page
+        .content()
+        .then((html) => writeFile(domTmp, html, 'utf-8'))
+        .then(() => rename(domTmp, path.join(dir, lastDom)))
+        .then(() => {
+          have.dom = true
+        })
+        .catch(() => {})
+    } finally {
+      busy = false
+    }
+  }
+
+  await capture()
+  const timer = setInterval(() => {
+    capture().catch(() => {})
+  }, intervalMs)
+  timer.unref()
+
+  return {
+    async saveTo(targetDir) {
+      await mkdir(targetDir, { recursive: true })
+      const out: { screenshot?: string; dom?: string } = {}
+      if (have.screenshot) {
+        const target = path.join(targetDir, 'screenshot.png')
+        await copyFile(path.join(dir, lastScreenshot), target)
+          .then(() => {
+            out.screenshot = target
+          })
+          .catch(() => {})
+      }
+      if (have.dom) {
+        const target = path.join(targetDir, 'dom.html')
+        await copyFile(path.join(dir, lastDom), target)
+          .then(() => {
+            out.dom = target
+          })
+          .catch(() => {})
+      }
+      return out
+    },
+    async stop() {
+      if (stopped) return
+      stopped = true
+      clearInterval(timer)
+      await browser?.close().catch(() => {})
+    },
+  }
+}
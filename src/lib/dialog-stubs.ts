@@ -0,0 +1,108 @@
+import type { MainRecord } from './main-records.js'
+import type { DialogCall, DialogResponse } from './types.js'
+
+/**
+ * Functions evaluated in the Electron main process through `evalInMain`. They are sent as
+ * source text, so they must stay self-contained and only reach Electron through `require`.
+ */
+
+type StubState = {
+  originals: Record<string, (...args: unknown[]) => unknown>
+  queue: DialogResponse[]
+  calls: DialogCall[]
+}
+
+/**
+ * Replaces the `dialog` methods with stubs (once) and appends `responses` to the queue. Each call
+ * takes the first queued response of its kind; with none left it is recorded as unexpected and
+ * throws (sync) or rejects. `showErrorBox` needs no response and is only recorded. Calls go to
+ * run.log through `record` (`recordInMain`).
+ */
+export const installDialogStubsInMain = (
+  { responses }: { responses: DialogResponse[] },
+  record: (kind: MainRecord['kind'], entry: Record<string, unknown>, failed: boolean) => void,
+): number => {
+  const holder = globalThis as { __eatDialogStubs__?: StubState }
+  const { dialog } = require('electron') as {
+    dialog: Record<string, (...args: unknown[]) => unknown>
+  }
+  let state = holder.__eatDialogStubs__
+  if (!state) {
+    const current: StubState = { originals: {}, queue: [], calls: [] }
+    state = current
+    holder.__eatDialogStubs__ = current
+    const methods: Array<[string, DialogCall['dialog'], boolean]> = [
+      ['showOpenDialog', 'open', false],
+      ['showOpenDialogSync', 'open', true],
+      ['showSaveDialog', 'save', false],
+      ['showSaveDialogSync', 'save', true],
+      ['showMessageBox', 'message', false],
+      ['showMessageBoxSync', 'message', true],
+      ['showErrorBox', 'error', true],
+    ]
+    for (const [method, kind, sync] of methods) {
+      const original = dialog[method]
+      if (typeof original !== 'function') continue
+      current.originals[method] = original
+      dialog[method] = (...args: unknown[]) => {
+        // The parent window is optional and comes first; only the options are recorded.
+        const options =
+          kind === 'error'
+            ? { title: args[0], content: args[1] }
+            : args.length > 1
+              ? args[1]
+              : args[0]
+        const call: DialogCall = { dialog: kind, method, options: options ?? {}, ts: Date.now() }
+        current.calls.push(call)
+
+        const index = current.queue.findIndex((queued) => queued.dialog === kind)
+        const queued = index === -1 ? undefined : current.queue.splice(index, 1)[0]
+        if (kind !== 'error' && !queued) call.unexpected = true
+        let result: unknown
+        if (queued?.dialog === 'open') {
+          const canceled = queued.canceled === true
+          const filePaths = canceled ? [] : (queued.filePaths ?? [])
+          result = sync ? (canceled ? undefined : filePaths) : { canceled, filePaths }
+        } else if (queued?.dialog === 'save') {
+          const canceled = queued.canceled === true
+          const filePath = canceled ? '' : (queued.filePath ?? '')
+          result = sync ? filePath : { canceled, filePath }
+        } else if (queued?.dialog === 'message') {
+          const response = queued.response ?? 0
+          const checkboxChecked = queued.checkboxChecked === true
+          result = sync ? response : { response, checkboxChecked }
+        }
+        if (result !== undefined) call.result = result
+
+        record('dialog', { ...call }, call.unexpected === true)
+        if (call.unexpected) {
+          const error = new Error(`Unexpected dialog.${method}: no stubbed ${kind} response queued`)
+          if (sync) throw error
+          return Promise.reject(error)
+        }
+        return sync ? result : Promise.resolve(result)
+      }
+    }
+  }
+  state.queue.push(...responses)
+  return state.queue.length
+}
+
+/** Every stubbed dialog call so far plus the responses still queued. */
+export const readDialogStubsInMain = (): { calls: DialogCall[]; pending: DialogResponse[] } => {
+  const state = (globalThis as { __eatDialogStubs__?: StubState }).__eatDialogStubs__
+  return { calls: state?.calls ?? [], pending: state?.queue ?? [] }
+}
+
+/** Puts the real `dialog` methods back and forgets queued responses and recorded calls. */
+export const removeDialogStubsInMain = (): boolean => {
+  const holder = globalThis as { __eatDialogStubs__?: StubState }
+  const state = holder.__eatDialogStubs__
+  if (!state) return false
+  const { dialog } = require('electron') as {
+    dialog: Record<string, (...args: unknown[]) => unknown>
+  }
+  for (const [method, original] of Object.entries(state.originals)) dialog[method] = original
+  delete holder.__eatDialogStubs__
+  return true
+}
@@ -0,0 +1,201 @@
+import { execFile } from 'node:child_process'
+import type { Dirent } from 'node:fs'
+import { readdir, readFile } from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+import type { DiscoveredApp, DiscoverOptions, DiscoverySource } from './types.js'
+
+const PROBE_TIMEOUT_MS = 800
+const defaultPortRange: [number, number] = [9222, 9229]
+const activePortFile = 'DevToolsActivePort'
+
+type Candidate = {
+  port: number
+  source: DiscoverySource
+  pid?: number | undefined
+  userDataDir?: string | undefined
+  command?: string | undefined
+}
+
+/**
+ * Where Chromium-based apps keep their user-data dirs by default; each `<root>/<app>` may hold
+ * a DevToolsActivePort file while the app runs with remote debugging.
+ */
+const defaultUserDataRoots = (): string[] => {
+  const home = os.homedir()
+  if (process.platform === 'darwin') return [path.join(home, 'Library', 'Application Support')]
+  if (process.platform === 'win32') {
+    return [process.env.APPDATA, process.env.LOCALAPPDATA].filter((dir): dir is string =>
+      Boolean(dir),
+    )
+  }
+  return [process.env.XDG_CONFIG_HOME ?? path.join(home, '.config')]
+}
+
+const readActivePort = async (userDataDir: string): Promise<number | null> => {
+  try {
+    const raw = await readFile(path.join(userDataDir, activePortFile), 'utf-8')
+    const port = Number.parseInt(raw.split(/\r?\n/)[0] ?? '', 10)
+    return Number.isInteger(port) && port > 0 ? port : null
+  } catch {
+    return null
+  }
+}
+
+const fromActivePortFiles = async (opts: DiscoverOptions): Promise<Candidate[]> => {
+  const dirs = [...(opts.userDataDirs ?? [])]
+  for (const root of opts.userDataRoots ?? defaultUserDataRoots()) {
+    let entries: Dirent[]
+    try {
+      entries = await readdir(root, { withFileTypes: true })
+    } catch {
+      continue
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) dirs.push(path.join(root, entry.name))
+    }
+  }
+  const found: Candidate[] = []
+  for (const dir of dirs) {
+    const port = await readActivePort(dir)
+    if (port) found.push({ port, source: 'devtools-active-port', userDataDir: dir })
+  }
+  return found
+}
+
+const fromPortRange = (range: [number, number]): Candidate[] => {
+  const [from, to] = range
+  const found: Candidate[] = []
+  for (let port = from; port <= to; port += 1) found.push({ port, source: 'port-scan' })
+  return found
+}
+
+/**
+ * Reads `--remote-debugging-port=<n>` (and `--user-data-dir`) from running command lines.
+ * POSIX only; relies on `ps`.
+ */
+const fromProcessList = async (): Promise<Candidate[]> =>
+  new Promise((resolve) => {
+    if (process.platform === 'win32') return resolve([])
+    execFile(
+      'ps',
+      ['-eo', 'pid=', '-o', 'command='],
+      { maxBuffer: 16 * 1024 * 1024 },
+      (err, stdout) => {
+        if (err || !stdout) return resolve([])
+        const found: Candidate[] = []
+        for (const line of stdout.split(/\n+/)) {
+          const match = line.trim().match(/^(\d+)\s+(.*)$/)
+          if (!match) continue
+          const command = match[2] ?? ''
+          const port = command.match(/--remote-debugging-port=(\d+)/)?.[1]
+          if (!port || port === '0') continue
+          found.push({
+            port: Number.parseInt(port, 10),
+            source: 'process',
+            pid: Number.parseInt(match[1] ?? '0', 10),
+            userDataDir: command.match(/--user-data-dir=("[^"]+"|\S+)/)?.[1]?.replace(/"/g, ''),
+            command,
+          })
+        }
+        resolve(found)
+      },
+    )
+  })
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS)
+  try {
+    const res = await fetch(url, { signal: controller.signal })
+    return res.ok ? await res.json() : null
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Electron user agents look like `… MyApp/1.2.3 Chrome/… Electron/…`; the token right before
+ * `Chrome/` is the app's own name when it didn't override the UA.
+ */
+const appNameFromUserAgent = (userAgent: string): string | null => {
+  const tokens = userAgent.match(/[\w.-]+\/[\w.-]+/g) ?? []
+  const chromeIndex = tokens.findIndex((token) => token.startsWith('Chrome/'))
+  const candidate = chromeIndex > 0 ? tokens[chromeIndex - 1] : undefined
+  if (!candidate || /^(AppleWebKit|KHTML|Gecko|Mozilla)\//.test(candidate)) return null
+  return candidate.split('/')[0] ?? null
+}
+
+const probePort = async (
+  candidate: Candidate,
+): Promise<Omit<DiscoveredApp, 'sources' | 'pid' | 'userDataDir'> | null> => {
+  const base = `http://127.0.0.1:${candidate.port}`
+  const version = (await fetchJson(`${base}/json/version`)) as {
+    Browser?: string
+    'User-Agent'?: string
+    webSocketDebuggerUrl?: string
+  } | null
+  if (!version?.webSocketDebuggerUrl) return null
+  const userAgent = version['User-Agent'] ?? ''
+  const targets = ((await fetchJson(`${base}/json/list`)) ?? []) as Array<{
+    type?: string
+    title?: string
+    url?: string
+  }>
+  return {
+    wsUrl: version.webSocketDebuggerUrl,
+    port: candidate.port,
+    appName: appNameFromUserAgent(userAgent),
+    browser: version.Browser ?? null,
+    electronVersion: userAgent.match(/Electron\/([\w.-]+)/)?.[1] ?? null,
+    windows: (Array.isArray(targets) ? targets : [])
+      .filter((target) => target.type === 'page')
+      .map((target) => ({ title: target.title ?? '', url: target.url ?? '' })),
+  }
+}
+
+/**
+ * Finds debuggable Electron instances that are already running: DevToolsActivePort files in
+ * user-data dirs, `--remote-debugging-port` switches in the process list, and a port range.
+ * Only endpoints that answer `/json/version` are returned; non-Electron browsers are skipped
+ * unless `includeNonElectron` is set.
+ */
+export const discoverElectron = async (opts: DiscoverOptions = {}): Promise<DiscoveredApp[]> => {
+  const candidates = [
+    ...(await fromActivePortFiles(opts)),
+    ...(await fromProcessList()),
+    ...(opts.ports === false ? [] : fromPortRange(opts.ports ?? defaultPortRange)),
+  ]
+
+  const byPort = new Map<number, Candidate[]>()
+  for (const candidate of candidates) {
+    byPort.set(candidate.port, [...(byPort.get(candidate.port) ?? []), candidate])
+  }
+
+  const apps = await Promise.all(
+    [...byPort.entries()].map(async ([port, group]) => {
+      const first = group[0] ?? { port, source: 'port-scan' as const }
+      const probed = await probePort(first)
+      if (!probed) return null
+      if (!probed.electronVersion && !opts.includeNonElectron) return null
+      const pid = group.find((c) => c.pid)?.pid ?? null
+      const userDataDir = group.find((c) => c.userDataDir)?.userDataDir
+      const command = group.find((c) => c.command)?.command
+      return {
+        ...probed,
+        // Fall back to the user-data dir / executable name when the UA carries no app name.
+        appName:
+          probed.appName ??
+          (userDataDir ? path.basename(userDataDir) : null) ??
+          (command ? path.basename(command.split(/\s+/)[0] ?? '') : null),
+        pid,
+        userDataDir: userDataDir ?? null,
+        sources: [...new Set(group.map((c) => c.source))],
+      } satisfies DiscoveredApp
+    }),
+  )
+  return apps.filter((app): app is DiscoveredApp => app !== null).sort((a, b) => a.port - b.port)
+}
@@ -0,0 +1,172 @@
+import type { SelectorList } from './types.js'
+
+/**
+ * Functions evaluated inside a document: by Playwright for the page and its frames, and as
+ * source text over raw CDP for webview guests. They must stay self-contained.
+ */
+
+/** The `listSelectors` scan; with `shadow` it also looks inside open shadow roots. */
+export const scanSelectorsInPage = ({
+  limit,
+  shadow,
+}: {
+  limit: number
+  shadow: boolean
+}): SelectorList => {
+  const queryAll = (selector: string): Element[] => {
+    if (!shadow) return Array.from(document.querySelectorAll(selector))
+    const found: Element[] = []
+    const visit = (root: Document | ShadowRoot) => {
+      for (const el of Array.from(root.querySelectorAll('*'))) {
+        if (el.matches(selector)) found.push(el)
+        if (el.shadowRoot) visit(el.shadowRoot)
+      }
+    }
+    visit(document)
+    return found
+  }
+
+  const uniq = <T>(arr: T[]) => Array.from(new Set(arr)).slice(0, limit)
+  const testIds = uniq(
+    queryAll('[data-testid]')
+      .map((el) => el.getAttribute('data-testid'))
+      .filter((v): v is string => Boolean(v)),
+  )
+
+  const roles = queryAll('[role]')
+    .slice(0, limit)
+    .map((el) => ({
+      role: (el.getAttribute('role') ?? '').trim(),
+      name: (el.getAttribute('aria-label') ?? el.textContent ?? '').trim() || null,
+      selector: el.tagName.toLowerCase(),
+    }))
+
+  const texts = queryAll('button, a, h1, h2, h3, p, span')
+    .slice(0, limit)
+    .map((el) => ({
+      text: (el.textContent ?? '').trim(),
+      selector: el.tagName.toLowerCase(),
+    }))
+    .filter((item) => item.text.length > 0)
+    .slice(0, limit)
+
+  return { testIds, roles, texts }
+}
+
+/**
+ * outerHTML of `selector` (or the whole document). With `shadow`, open shadow roots are inlined
+ * as declarative `<template shadowrootmode="open">` blocks and `selector` may match inside them.
+ */
+export const serializeDomInPage = ({
+  selector,
+  shadow,
+}: {
+  selector?: string | undefined
+  shadow: boolean
+}): string => {
+  if (!shadow) {
+    const node = selector ? document.querySelector(selector) : document.documentElement
+    return node?.outerHTML ?? ''
+  }
+  const roots: ShadowRoot[] = []
+  let node: Element | null = selector ? null : document.documentElement
+  const visit = (root: Document | ShadowRoot) => {
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+      if (!node && selector && el.matches(selector)) node = el
+      if (el.shadowRoot) {
+        roots.push(el.shadowRoot)
+        visit(el.shadowRoot)
+      }
+    }
+  }
+  visit(document)
+  const target = node as Element | null
+  if (!target) return ''
+  // getHTML only serializes the children, so rebuild the element's own tag around them.
+  const tag = target.tagName.toLowerCase()
+  const attrs = Array.from(
+    target.attributes,
+    (attr) => ` ${attr.name}="${attr.value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`,
+  ).join('')
+  return `<${tag}${attrs}>${target.getHTML({ shadowRoots: roots })}</${tag}>`
+}
+
+/** JSON-safe subset of `Selector` understood by `locateInPage`. */
+export type PageQuery = {
+  css?: string | undefined
+  testid?: string | undefined
+  text?: string | { regex: string; flags?: string | undefined } | undefined
+  exact?: boolean | undefined
+  nth?: number | undefined
+}
+
+export type PageAction = 'point' | 'focus' | 'fill' | 'innerHTML' | 'textContent'
+
+/**
+ * Finds the `nth` element matching every field of `query`, looking through open shadow roots.
+ * `point`, `focus` and `fill` scroll it into view and return its center (`focus` also focuses
+ * it, `fill` focuses it and selects its content); the other actions return the markup or text.
+ * Null while nothing visible matches.
+ */
+export const locateInPage = ({
+  query,
+  action,
+}: {
+  query: PageQuery
+  action: PageAction
+}): { x: number; y: number } | { value: string } | null => {
+  const all: Element[] = []
+  const visit = (root: Document | ShadowRoot) => {
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+      all.push(el)
+      if (el.shadowRoot) visit(el.shadowRoot)
+    }
+  }
+  visit(document)
+
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim()
+  const textMatches = (el: Element) => {
+    const text = query.text
+    if (text === undefined) return true
+    const content = normalize(el.textContent ?? '')
+    if (typeof text !== 'string') return new RegExp(text.regex, text.flags).test(content)
+    return query.exact
+      ? content === normalize(text)
+      : content.toLowerCase().includes(normalize(text).toLowerCase())
+  }
+
+  let matches = all.filter(
+    (el) =>
+      (!query.css || el.matches(query.css)) &&
+      (!query.testid || el.getAttribute('data-testid') === query.testid) &&
+      textMatches(el),
+  )
+  // Like getByText, prefer the innermost elements carrying the text.
+  if (query.text !== undefined) {
+    matches = matches.filter((el) => !matches.some((other) => other !== el && el.contains(other)))
+  }
+  const el = matches[query.nth ?? 0]
+  if (!el) return null
+
+  if (action === 'innerHTML') return { value: el.innerHTML }
+  if (action === 'textContent') return { value: el.textContent ?? '' }
+
+  el.scrollIntoView({ block: 'center', inline: 'center' })
+  const rect = el.getBoundingClientRect()
+  if (rect.width === 0 || rect.height === 0) return null
+  if (action === 'focus') (el as HTMLElement).focus()
+  if (action === 'fill') {
+    const field = el as HTMLElement
+    field.focus()
+    if (field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement) {
+      field.select()
+    } else if (field.isContentEditable) {
+      const range = document.createRange()
+      range.selectNodeContents(field)
+      const selection = window.getSelection()
+      selection?.removeAllRanges()
+      selection?.addRange(range)
+    }
+  }
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 }
+}
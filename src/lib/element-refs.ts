@@ -0,0 +1,148 @@
+import type { ObservedElement } from './types.js'
+
+/** DOM attribute carrying an element's ref; removed together with the node. */
+export const refAttribute = 'data-eat-ref'
+
+export const refCss = (ref: string) => `[${refAttribute}="${ref.replace(/["\\]/g, '\\$&')}"]`
+
+/**
+ * Runs in the page: tags visible interactive elements with refs and describes them. The ref
+ * counter lives in sessionStorage so refs are never reused within a window, not even after a
+ * reload; elements that already carry a ref keep it.
+ */
+export const observeInPage = ({ attr, max }: { attr: string; max: number }): ObservedElement[] => {
+  const seqKey = '__eatRefSeq__'
+  const holder = window as unknown as Record<string, number | undefined>
+  let seq = holder[seqKey] ?? 0
+  try {
+    seq = Math.max(seq, Number(sessionStorage.getItem(seqKey)) || 0)
+  } catch {}
+
+  const interactive = [
+    'a[href]',
+    'button',
+    'input:not([type="hidden"])',
+    'select',
+    'textarea',
+    'summary',
+    '[contenteditable=""]',
+    '[contenteditable="true"]',
+    '[tabindex]:not([tabindex="-1"])',
+    '[role="button"]',
+    '[role="link"]',
+    '[role="checkbox"]',
+    '[role="radio"]',
+    '[role="switch"]',
+    '[role="tab"]',
+    '[role="menuitem"]',
+    '[role="menuitemcheckbox"]',
+    '[role="menuitemradio"]',
+    '[role="option"]',
+    '[role="combobox"]',
+    '[role="textbox"]',
+    '[role="searchbox"]',
+    '[role="slider"]',
+    '[role="spinbutton"]',
+    '[role="treeitem"]',
+  ].join(',')
+
+  const implicitRole = (el: Element): string => {
+    const explicit = el.getAttribute('role')?.trim().split(/\s+/)[0]
+    if (explicit) return explicit
+    const tag = el.tagName.toLowerCase()
+    if (tag === 'a') return 'link'
+    if (tag === 'button' || tag === 'summary') return 'button'
+    if (tag === 'textarea') return 'textbox'
+    if (tag === 'select') {
+      const select = el as HTMLSelectElement
+      return select.multiple || select.size > 1 ? 'listbox' : 'combobox'
+    }
+    if (tag === 'input') {
+      const type = (el as HTMLInputElement).type
+      if (type === 'checkbox' || type === 'radio') return type
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button'
+      if (type === 'range') return 'slider'
+      if (type === 'number') return 'spinbutton'
+      if (type === 'search') return 'searchbox'
+      return 'textbox'
+    }
+    if ((el as HTMLElement).isContentEditable) return 'textbox'
+    return 'generic'
+  }
+
+  const clean = (text: string | null | undefined) =>
+    (text ?? '').replace(/\s+/g, ' ').trim().slice(0, 100)
+
+  const accessibleName = (el: Element): string => {
+    const label = el.getAttribute('aria-label')
+    if (label?.trim()) return clean(label)
+    const labelledBy = el.getAttribute('aria-labelledby')
+    if (labelledBy) {
+      const text = labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.textContent ?? '')
+        .join(' ')
+      if (text.trim()) return clean(text)
+    }
+    const labels = (el as HTMLInputElement).labels
+    if (labels?.length) return clean(Array.from(labels, (l) => l.textContent).join(' '))
+    if (el instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(el.type)) {
+      return clean(el.value)
+    }
+    const text = clean((el as HTMLElement).innerText ?? el.textContent)
+    if (text) return text
+    return clean(
+      el.getAttribute('placeholder') ?? el.getAttribute('alt') ?? el.getAttribute('title'),
+    )
+  }
+
+  const out: ObservedElement[] = []
+  const seen = new Set<string>()
+  for (const el of Array.from(document.querySelectorAll(interactive))) {
+    if (out.length >= max) break
+    const rect = el.getBoundingClientRect()
+    if (rect.width === 0 && rect.height === 0) continue
+    const style = getComputedStyle(el)
+    if (style.visibility === 'hidden' || style.display === 'none') continue
+
+    let ref = el.getAttribute(attr)
+    // cloneNode copies the attribute; the clone gets a ref of its own.
+    if (!ref || seen.has(ref)) {
+      seq += 1
+      ref = `e${seq}`
+      el.setAttribute(attr, ref)
+    }
+    seen.add(ref)
+    const item: ObservedElement = {
+      ref,
+      role: implicitRole(el),
+      name: accessibleName(el),
+      tag: el.tagName.toLowerCase(),
+      box: {
+        x: Math.round(rect.x),
+        y: Math.round(rect.y),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      },
+    }
+    if ((el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') {
+      item.disabled = true
+    }
+    if (el instanceof HTMLInputElement && (el.type === 'checkbox' || el.type === 'radio')) {
+      item.checked = el.checked
+    } else if (
+      (el instanceof HTMLInputElement && el.type !== 'password') ||
+      el instanceof HTMLTextAreaElement ||
+      el instanceof HTMLSelectElement
+    ) {
+      item.value = el.value
+    }
+    out.push(item)
+  }
+
+  holder[seqKey] = seq
+  try {
+    sessionStorage.setItem(seqKey, String(seq))
+  } catch {}
+  return out
+}
@@ -1,6 +1,14 @@
-export type AppErrorCode = 'E_SELECTOR' | 'E_NO_PAGE' | 'E_WAIT_TIMEOUT' | 'E_FS' | 'E_INTERNAL'
+export type AppErrorCode =
+  | 'E_SELECTOR'
+  | 'E_NO_PAGE'
+  | 'E_WAIT_TIMEOUT'
+  | 'E_ASSERT'
+  | 'E_FS'
+  | 'E_NOT_RECORDING'
+  | 'E_BAD_INPUT'
+  | 'E_INTERNAL'
 
-export type LaunchErrorCode = 'E_SPAWN' | 'E_EXIT_EARLY' | 'E_CDP_TIMEOUT'
+export type LaunchErrorCode = 'E_SPAWN' | 'E_EXIT_EARLY' | 'E_CDP_TIMEOUT' | 'E_READY_TIMEOUT'
 
 /**
  * Union of all error codes produced by the library, useful for branching on `code`.
@@ -0,0 +1,192 @@
+import type { Locator } from 'playwright'
+
+import type { AssertionName, AssertionResult, Expectation, Selector, TextMatch } from './types.js'
+
+const defaultTimeoutMs = 5_000
+const pollMs = 100
+
+/** What one evaluation of an assertion saw. */
+type Probe = { pass: boolean; actual: unknown }
+
+/** Final state of an assertion, handed to the driver to log and (on failure) throw. */
+export type AssertionOutcome = AssertionResult & {
+  pass: boolean
+  assertion: AssertionName
+  selector: Selector
+  expected: unknown
+  timeoutMs: number
+}
+
+/** `target` is the element the selector resolves to; `all` every match (for counts). */
+export type ResolvedSelector = { target: Locator; all: Locator }
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+/**
+ * Selector errors won't fix themselves by polling, except a frame (picked by name or url) that
+ * has not attached yet.
+ */
+const isFatal = (error: unknown) => {
+  const { code, details } = error as { code?: unknown; details?: { reason?: unknown } }
+  return code === 'E_SELECTOR' && details?.reason !== 'no-frame'
+}
+
+/** JSON-friendly form of an expected value (RegExps don't survive `JSON.stringify`). */
+const printable = (value: unknown) => (value instanceof RegExp ? String(value) : value)
+
+const matchText = (actual: string, expected: string | RegExp, contains: boolean) => {
+  if (typeof expected !== 'string') return expected.test(actual)
+  return contains ? actual.includes(normalize(expected)) : actual === normalize(expected)
+}
+
+/**
+ * Retrying checks against one selector, in the spirit of Playwright's `expect(locator)`. Each
+ * assertion re-evaluates every 100ms until it passes or its timeout runs out, then reports the
+ * outcome (expected vs. actual and the match count) through `report`, which throws on failure.
+ */
+export class SelectorExpectation implements Expectation {
+  #selector: Selector
+  #resolve: () => ResolvedSelector
+  #timeoutMs: number
+  #report: (outcome: AssertionOutcome) => void
+  #invalid: (message: string, details: Record<string, unknown>) => Error
+
+  /** `invalid` builds the error thrown for an unusable expected value. */
+  constructor(
+    selector: Selector,
+    resolve: () => ResolvedSelector,
+    report: (outcome: AssertionOutcome) => void,
+    invalid: (message: string, details: Record<string, unknown>) => Error,
+    timeoutMs?: number,
+  ) {
+    this.#selector = selector
+    this.#resolve = resolve
+    this.#report = report
+    this.#invalid = invalid
+    this.#timeoutMs = timeoutMs ?? selector.timeoutMs ?? defaultTimeoutMs
+  }
+
+  #toRegExp(value: TextMatch): string | RegExp {
+    if (typeof value === 'string' || value instanceof RegExp) return value
+    try {
+      return new RegExp(value.regex, value.flags)
+    } catch (error) {
+      throw this.#invalid('Invalid regex in expected value', { error, regex: value.regex })
+    }
+  }
+
+  async #check(
+    assertion: AssertionName,
+    expected: unknown,
+    opts: { timeoutMs?: number | undefined },
+    probe: (resolved: ResolvedSelector, count: number) => Promise<Probe>,
+  ): Promise<AssertionResult> {
+    const timeoutMs = opts.timeoutMs ?? this.#timeoutMs
+    const started = Date.now()
+    let last: Probe & { count: number } = { pass: false, actual: null, count: 0 }
+    for (;;) {
+      try {
+        // Resolved on every attempt: the selector's frame may attach while we poll.
+        const resolved = this.#resolve()
+        const count = await resolved.all.count()
+        last = { ...(await probe(resolved, count)), count }
+      } catch (error) {
+        if (isFatal(error)) throw error
+        // The DOM changed under us, the frame is missing or the selector is ambiguous; keep polling.
+        last = { ...last, pass: false, actual: (error as Error).message.split('\n')[0] }
+      }
+      if (last.pass || Date.now() - started >= timeoutMs) break
+      await new Promise((resolve) => setTimeout(resolve, pollMs))
+    }
+    const result = { actual: last.actual, count: last.count, elapsedMs: Date.now() - started }
+    this.#report({
+      ...result,
+      pass: last.pass,
+      assertion,
+      selector: this.#selector,
+      expected: printable(expected),
+      timeoutMs,
+    })
+    return result
+  }
+
+  toBeVisible(opts: { timeoutMs?: number } = {}) {
+    return this.#check('toBeVisible', true, opts, async ({ target }, count) => {
+      const visible = count > 0 && (await target.isVisible())
+      return { pass: visible, actual: visible }
+    })
+  }
+
+  toBeHidden(opts: { timeoutMs?: number } = {}) {
+    return this.#check('toBeHidden', true, opts, async ({ target }, count) => {
+      const visible = count > 0 && (await target.isVisible())
+      return { pass: !visible, actual: !visible }
+    })
+  }
+
+  async toHaveText(expected: TextMatch, opts: { timeoutMs?: number } = {}) {
+    const matcher = this.#toRegExp(expected)
+    return this.#check('toHaveText', matcher, opts, async ({ target }, count) => {
+      if (count === 0) return { pass: false, actual: null }
+      const text = normalize((await target.textContent({ timeout: pollMs })) ?? '')
+      return { pass: matchText(text, matcher, false), actual: text }
+    })
+  }
+
+  async toContainText(expected: TextMatch, opts: { timeoutMs?: number } = {}) {
+    const matcher = this.#toRegExp(expected)
+    return this.#check('toContainText', matcher, opts, async ({ target }, count) => {
+      if (count === 0) return { pass: false, actual: null }
+      const text = normalize((await target.textContent({ timeout: pollMs })) ?? '')
+      return { pass: matchText(text, matcher, true), actual: text }
+    })
+  }
+
+  toHaveCount(expected: number, opts: { timeoutMs?: number } = {}) {
+    return this.#check('toHaveCount', expected, opts, async (_resolved, count) => ({
+      pass: count === expected,
+      actual: count,
+    }))
+  }
+
+  async toHaveAttribute(name: string, expected?: TextMatch, opts: { timeoutMs?: number } = {}) {
+    const matcher = expected === undefined ? undefined : this.#toRegExp(expected)
+    const printed = { name, ...(matcher !== undefined ? { value: printable(matcher) } : {}) }
+    return this.#check('toHaveAttribute', printed, opts, async ({ target }, count) => {
+      if (count === 0) return { pass: false, actual: null }
+      const value = await target.getAttribute(name, { timeout: pollMs })
+      const pass =
+        value !== null &&
+        (matcher === undefined ||
+          (typeof matcher === 'string' ? value === matcher : matcher.test(value)))
+      return { pass, actual: value }
+    })
+  }
+
+  async toHaveValue(expected: TextMatch, opts: { timeoutMs?: number } = {}) {
+    const matcher = this.#toRegExp(expected)
+    return this.#check('toHaveValue', matcher, opts, async ({ target }, count) => {
+      if (count === 0) return { pass: false, actual: null }
+      const value = await target.inputValue({ timeout: pollMs })
+      const pass = typeof matcher === 'string' ? value === matcher : matcher.test(value)
+      return { pass, actual: value }
+    })
+  }
+
+  toBeEnabled(opts: { timeoutMs?: number } = {}) {
+    return this.#check('toBeEnabled', true, opts, async ({ target }, count) => {
+      if (count === 0) return { pass: false, actual: null }
+      const enabled = await target.isEnabled({ timeout: pollMs })
+      return { pass: enabled, actual: enabled }
+    })
+  }
+
+  toBeChecked(opts: { checked?: boolean; timeoutMs?: number } = {}) {
+    const expected = opts.checked ?? true
+    return this.#check('toBeChecked', expected, opts, async ({ target }, count) => {
+      if (count === 0) return { pass: false, actual: null }
+      const checked = await target.isChecked({ timeout: pollMs })
+      return { pass: checked === expected, actual: checked }
+    })
+  }
+}
@@ -0,0 +1,187 @@
+import { mkdir, readdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import type { FailureBundle, NearMiss, Selector, SelectorList, TextMatch } from './types.js'
+
+const maxCandidates = 5
+const minScore = 0.5
+
+/** What the driver hands over to fill a bundle; each part may fail on its own. */
+export type FailureCapture = {
+  action: string
+  selector: Selector
+  code: string
+  message: string
+  url: string
+  title: string
+  /** `webview` when dom, selectors, url and title come from the webview guest `selector` targets. */
+  scope: FailureBundle['scope']
+  screenshot: (path: string) => Promise<void>
+  dom: () => Promise<string>
+  selectors: () => Promise<SelectorList>
+}
+
+/** Creates the next free `<runDir>/failures/<n>` exclusively, so concurrent CLI calls don't clash. */
+const claimFailureDir = async (runDir: string): Promise<string> => {
+  const root = join(runDir, 'failures')
+  await mkdir(root, { recursive: true })
+  const taken = (await readdir(root)).map(Number).filter(Number.isInteger)
+  for (let index = Math.max(0, ...taken) + 1; ; index += 1) {
+    const dir = join(root, String(index))
+    try {
+      await mkdir(dir)
+      return dir
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+  }
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase()
+
+const distance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j += 1) {
+      const substitute = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitute)
+    }
+    previous = current
+  }
+  return previous[b.length] ?? 0
+}
+
+/** 1 for equal or contained values, otherwise edit-distance similarity. */
+const similarity = (wanted: TextMatch, candidate: string): number => {
+  const value = normalize(candidate)
+  if (!value) return 0
+  if (typeof wanted !== 'string') {
+    try {
+      // A fresh copy without `g` / `y`: those make `test` resume from the caller's `lastIndex`.
+      const source = wanted instanceof RegExp ? wanted.source : wanted.regex
+      const regex = new RegExp(source, (wanted.flags ?? '').replace(/[gy]/g, ''))
+      return regex.test(candidate) ? 1 : 0
+    } catch {
+      return 0
+    }
+  }
+  const target = normalize(wanted)
+  if (!target) return 0
+  if (value.includes(target) || target.includes(value)) {
+    return Math.min(value.length, target.length) / Math.max(value.length, target.length) >= 0.5
+      ? 1
+      : 0.75
+  }
+  return 1 - distance(target, value) / Math.max(target.length, value.length)
+}
+
+/**
+ * Ranks what the page offers (from `listSelectors`) against the strings a failed selector asked
+ * for: test ids against `testid`, role names and texts against names, labels and text fields.
+ */
+export const nearMisses = (sel: Selector, list: SelectorList): NearMiss[] => {
+  const names = [
+    sel.role?.name,
+    sel.text,
+    sel.hasText,
+    sel.label,
+    sel.placeholder,
+    sel.altText,
+    sel.title,
+  ].filter((value): value is TextMatch => value !== undefined)
+  const found = new Map<string, NearMiss>()
+  const add = (selector: Selector, matched: string, score: number) => {
+    const key = JSON.stringify(selector)
+    if (score < minScore || (found.get(key)?.score ?? 0) >= score) return
+    found.set(key, { selector, matched, score: Math.round(score * 100) / 100 })
+  }
+
+  if (sel.testid !== undefined) {
+    for (const testid of list.testIds) add({ testid }, testid, similarity(sel.testid, testid))
+  }
+  for (const role of list.roles) {
+    const name = role.name ?? ''
+    const roleName = role.role as NonNullable<Selector['role']>['role']
+    const selector: Selector = { role: name ? { role: roleName, name } : { role: roleName } }
+    const sameRole = sel.role?.role === role.role
+    if (names.length === 0) {
+      if (sameRole) add(selector, name || role.role, 1)
+      continue
+    }
+    const score = Math.max(0, ...names.map((wanted) => similarity(wanted, name)))
+    // A name that fits under another role is still worth showing, just ranked lower.
+    add(selector, name, sel.role && !sameRole ? score * 0.8 : score)
+  }
+  for (const { text } of list.texts) {
+    add({ text }, text, Math.max(0, ...names.map((wanted) => similarity(wanted, text))))
+  }
+  return Array.from(found.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxCandidates)
+}
+
+/**
+ * Writes screenshot.png, dom.html, selectors.json and failure.json into a fresh
+ * `failures/<n>/`. Parts that fail are recorded as null paths (and their error in failure.json)
+ * rather than thrown, so the original action error always survives.
+ */
+export const captureFailureBundle = async (
+  runDir: string,
+  capture: FailureCapture,
+): Promise<FailureBundle> => {
+  const dir = await claimFailureDir(runDir)
+  const errors: Record<string, string> = {}
+  const attempt = async <T>(part: string, fn: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await fn()
+    } catch (error) {
+      errors[part] = (error as Error).message.split('\n')[0] ?? String(error)
+      return null
+    }
+  }
+
+  const screenshot = await attempt('screenshot', async () => {
+    const path = join(dir, 'screenshot.png')
+    await capture.screenshot(path)
+    return path
+  })
+  const dom = await attempt('dom', async () => {
+    const path = join(dir, 'dom.html')
+    await writeFile(path, await capture.dom(), 'utf-8')
+    return path
+  })
+  const list = await attempt('selectors', capture.selectors)
+  const selectors =
+    list &&
+    (await attempt('selectors', async () => {
+      const path = join(dir, 'selectors.json')
+      await writeFile(path, `${JSON.stringify(list, null, 2)}\n`, 'utf-8')
+      return path
+    }))
+  // Role selectors don't resolve inside webviews, so guests only get test id and text candidates.
+  const offered = list && capture.scope === 'webview' ? { ...list, roles: [] } : list
+  const candidates = offered ? nearMisses(capture.selector, offered) : []
+
+  const summary = join(dir, 'failure.json')
+  const bundle: FailureBundle = {
+    dir,
+    screenshot,
+    dom,
+    selectors,
+    summary,
+    url: capture.url,
+    title: capture.title,
+    scope: capture.scope,
+    candidates,
+  }
+  const { action, selector, code, message } = capture
+  const record = { action, selector, code, message, ...bundle, errors }
+  const json = JSON.stringify(
+    record,
+    (_, value) => (value instanceof RegExp ? String(value) : value),
+    2,
+  )
+  await writeFile(summary, `${json}\n`, 'utf-8')
+  return bundle
+}
@@ -0,0 +1,168 @@
+import { readFile, stat } from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+import { processCommand } from './run-status.js'
+import type { EnvironmentFingerprint } from './types.js'
+
+const secretKey = /token|secret|passw|pwd|key|auth|cookie|credential|session|private/i
+
+/**
+ * Copies `LaunchOptions.env` for the record, masking values whose names look like credentials.
+ */
+export const sanitizeEnv = (env: NodeJS.ProcessEnv | undefined): Record<string, string> => {
+  const out: Record<string, string> = {}
+  for (const [key, value] of Object.entries(env ?? {})) {
+    if (value === undefined) continue
+    out[key] = secretKey.test(key) ? '***' : value
+  }
+  return out
+}
+
+/**
+ * Masks the values of flags whose names look like credentials, both `--flag=value` and
+ * `--flag value` (the next arg, unless it is a flag itself).
+ */
+export const sanitizeCommandLine = (commandLine: string): string => {
+  const parts = commandLine.split(/(\s+)/)
+  let maskNext = false
+  return parts
+    .map((part) => {
+      if (!part || /^\s+$/.test(part)) return part
+      const flag = part.match(/^(--?[\w.-]+)(=.*)?$/)
+      if (maskNext && !flag) {
+        maskNext = false
+        return '***'
+      }
+      maskNext = false
+      if (!flag?.[1] || !secretKey.test(flag[1])) return part
+      if (flag[2] !== undefined) return `${flag[1]}=***`
+      maskNext = true
+      return part
+    })
+    .join('')
+}
+
+const readJson = async (filePath: string): Promise<Record<string, unknown> | null> => {
+  try {
+    const parsed = JSON.parse(await readFile(filePath, 'utf-8')) as unknown
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Finds the package.json of the app under test: the first arg that exists on disk (app dir or
+ * main script) is walked upwards, falling back to `cwd`.
+ */
+export const findAppPackage = async (
+  args: string[],
+  cwd: string,
+): Promise<EnvironmentFingerprint['app']> => {
+  const starts: string[] = []
+  for (const arg of args) {
+    if (arg.startsWith('-')) continue
+    const resolved = path.resolve(cwd, arg)
+    const info = await stat(resolved).catch(() => null)
+    if (!info) continue
+    starts.push(info.isDirectory() ? resolved : path.dirname(resolved))
+    break
+  }
+  starts.push(path.resolve(cwd))
+
+  for (const start of starts) {
+    let dir = start
+    while (true) {
+      const packageJson = path.join(dir, 'package.json')
+      const pkg = await readJson(packageJson)
+      if (pkg && (typeof pkg.name === 'string' || typeof pkg.version === 'string')) {
+        return {
+          name: typeof pkg.name === 'string' ? pkg.name : null,
+          version: typeof pkg.version === 'string' ? pkg.version : null,
+          packageJson,
+        }
+      }
+      const parent = path.dirname(dir)
+      if (parent === dir) break
+      dir = parent
+    }
+  }
+  return null
+}
+
+const fetchVersion = async (port: number): Promise<EnvironmentFingerprint['versions']> => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), 1_500)
+  try {
+    const res = await fetch(`http://127.0.0.1:${port}/json/version`, { signal: controller.signal })
+    if (!res.ok) return null
+    const body = (await res.json()) as Record<string, string | undefined>
+    const userAgent = body['User-Agent'] ?? null
+    return {
+      browser: body.Browser ?? null,
+      protocol: body['Protocol-Version'] ?? null,
+      v8: body['V8-Version'] ?? null,
+      userAgent,
+      electron: userAgent?.match(/Electron\/([\w.-]+)/)?.[1] ?? null,
+      chrome: (body.Browser ?? userAgent ?? '').match(/Chrome\/([\w.-]+)/)?.[1] ?? null,
+    }
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/** Facts known before the app starts: host, Node, env overrides and the app's package. */
+export const staticFingerprint = async ({
+  args,
+  cwd,
+  env,
+}: {
+  args: string[]
+  cwd: string
+  env: NodeJS.ProcessEnv | undefined
+}): Promise<Pick<EnvironmentFingerprint, 'os' | 'node' | 'envOverrides' | 'app'>> => ({
+  os: { platform: process.platform, release: os.release(), arch: process.arch },
+  node: process.version,
+  envOverrides: sanitizeEnv(env),
+  app: await findAppPackage(args, cwd),
+})
+
+/**
+ * Completes the fingerprint once CDP is up: `/json/version` and the Electron process's
+ * resolved command line, with secret-looking flag values masked.
+ */
+export const collectFingerprint = async (
+  base: Pick<EnvironmentFingerprint, 'os' | 'node' | 'envOverrides' | 'app'>,
+  { cdpPort, electronPid }: { cdpPort: number; electronPid: number | undefined },
+): Promise<EnvironmentFingerprint> => ({
+  ...base,
+  versions: await fetchVersion(cdpPort),
+  commandLine: electronPid
+    ? sanitizeCommandLine((await processCommand(electronPid)) ?? '') || null
+    : null,
+})
+
+/** Flattens a fingerprint into `run.log` key=value pairs. */
+export const fingerprintLogMeta = (
+  fingerprint: Partial<EnvironmentFingerprint>,
+): Record<string, unknown> => ({
+  electron: fingerprint.versions?.electron ?? undefined,
+  chrome: fingerprint.versions?.chrome ?? undefined,
+  v8: fingerprint.versions?.v8 ?? undefined,
+  protocol: fingerprint.versions?.protocol ?? undefined,
+  node: fingerprint.node,
+  os: fingerprint.os
+    ? `${fingerprint.os.platform}-${fingerprint.os.arch} ${fingerprint.os.release}`
+    : undefined,
+  app: fingerprint.app
+    ? `${fingerprint.app.name ?? '?'}@${fingerprint.app.version ?? '?'}`
+    : undefined,
+  env:
+    fingerprint.envOverrides && Object.keys(fingerprint.envOverrides).length
+      ? fingerprint.envOverrides
+      : undefined,
+  commandLine: fingerprint.commandLine ?? undefined,
+})
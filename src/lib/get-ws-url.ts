@@ -36,3 +36,40 @@ export async function getWsUrl({ port, timeoutMs = 30_000 }: WsOptions): Promise
     details: { port, timeoutMs, lastError },
   })
 }
+
+/**
+ * Polls a Node inspector's /json/list endpoint (e.g. Electron started with `--inspect=<port>`)
+ * and returns the main-process webSocketDebuggerUrl.
+ */
+export async function getInspectorWsUrl({ port, timeoutMs = 10_000 }: WsOptions): Promise<string> {
+  const deadline = Date.now() + timeoutMs
+  const url = `http://127.0.0.1:${port}/json/list`
+  let lastError: unknown
+  while (Date.now() < deadline) {
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) break
+
+    const controller = new AbortController()
+    const attemptTimeout = Math.min(PER_REQUEST_TIMEOUT_MS, remaining)
+    const timeout = setTimeout(() => controller.abort(), attemptTimeout)
+    try {
+      const res = await fetch(url, { signal: controller.signal })
+      if (res.ok) {
+        const targets = (await res.json()) as Array<{
+          type?: string
+          webSocketDebuggerUrl?: string
+        }>
+        const target = targets.find((t) => t.type === 'node') ?? targets[0]
+        if (target?.webSocketDebuggerUrl) return target.webSocketDebuggerUrl
+      }
+    } catch (error) {
+      lastError = error
+    } finally {
+      clearTimeout(timeout)
+    }
+    await delay(200)
+  }
+  throw Object.assign(new Error(`Timed out waiting for Node inspector on port ${port}`), {
+    details: { port, timeoutMs, lastError },
+  })
+}
@@ -0,0 +1,79 @@
+import { chromium } from 'playwright'
+
+import { NodeInspectorSession } from './node-inspector.js'
+import { isAlive } from './run-status.js'
+
+export type GracefulChannel = 'app-quit' | 'browser-close'
+
+/** How a quit ended; only `graceful` (an `app.quit()` that finished) ran the app's quit handlers. */
+export type QuitPath = 'graceful' | 'browser-close' | 'signal'
+
+/**
+ * Asks the app to quit itself so `before-quit` / `will-quit` handlers run. Prefers
+ * `app.quit()` over the main-process inspector; without one, falls back to CDP `Browser.close`,
+ * which closes the windows but may skip those handlers. Returns the channel that accepted the
+ * request.
+ */
+export const requestAppQuit = async ({
+  inspectorUrl,
+  wsUrl,
+}: {
+  inspectorUrl?: string | undefined
+  wsUrl?: string | undefined
+}): Promise<GracefulChannel | null> => {
+  if (inspectorUrl) {
+    const session = await NodeInspectorSession.connect(inspectorUrl).catch(() => null)
+    if (session) {
+      try {
+        // Defer the quit so the reply makes it back first; `require` only exists during the
+        // evaluation, so `app` is resolved up front.
+        const { exceptionDetails } = await session.send<{ exceptionDetails?: unknown }>(
+          'Runtime.evaluate',
+          {
+            expression:
+              "(() => { const { app } = require('electron'); setImmediate(() => app.quit()) })()",
+            includeCommandLineAPI: true,
+          },
+          // A paused main process won't answer; fall back to CDP instead of waiting.
+          3_000,
+        )
+        if (!exceptionDetails) return 'app-quit'
+      } catch {
+        // fall through to CDP
+      } finally {
+        await session.close().catch(() => {})
+      }
+    }
+  }
+
+  if (wsUrl) {
+    try {
+      const browser = await chromium.connectOverCDP(wsUrl, { timeout: 3_000 })
+      const session = await browser.newBrowserCDPSession()
+      // The connection drops as the app exits, so the reply may never arrive.
+      await Promise.race([
+        session.send('Browser.close').catch(() => {}),
+        new Promise((resolve) => setTimeout(resolve, 1_000)),
+      ])
+      await browser.close().catch(() => {})
+      return 'browser-close'
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+/** `exited`: the app was gone before the signal ladder had to run. */
+export const quitPathOf = (via: GracefulChannel | null, exited: boolean): QuitPath =>
+  !exited || !via ? 'signal' : via === 'app-quit' ? 'graceful' : 'browser-close'
+
+/** Polls until `pid` is gone; resolves false on timeout. */
+export const waitForPidExit = async (pid: number, timeoutMs: number): Promise<boolean> => {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (!isAlive(pid)) return true
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+  return !isAlive(pid)
+}
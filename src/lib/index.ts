@@ -1,7 +1,9 @@
 export { prepareArtifactRun } from './artifacts.js'
+export { discoverElectron } from './discover.js'
 export type { AppErrorCode, ErrorCode, LaunchErrorCode } from './error-codes.js'
-export { getWsUrl } from './get-ws-url.js'
+export { getInspectorWsUrl, getWsUrl } from './get-ws-url.js'
 export { LaunchError, launchElectron } from './launch-electron.js'
+export { launchPool } from './launch-pool.js'
 export { AppError, connectAndPick } from './playwright-driver.js'
 export { openRunLogger } from './run-log.js'
 export * from './types.js'
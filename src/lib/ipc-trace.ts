@@ -0,0 +1,324 @@
+import type { MainRecord } from './main-records.js'
+import type { IpcStubResponse, MainIpcHooks } from './types.js'
+
+/** Prefix of the renderer console lines the driver turns into `ipc` run.log entries. */
+export const ipcLogPrefix = '__EAT_IPC__'
+
+/**
+ * Private channel that announces the id of the next message from the same sender, so both sides
+ * can log the same id without touching the app's payloads. IPC between one frame and the main
+ * process is ordered, so the announcement always arrives right before the message it names.
+ * Renderers announce a plain id; the main process announces `{ id, channel }`.
+ */
+export const ipcIdChannel = '__eat-ipc-id__'
+
+/**
+ * First Electron release with `ipcMain.handle` and its internal handler map, which tracing
+ * existing handlers and stubbing rely on. The package is tested against the Electron in its
+ * devDependencies.
+ */
+export const minIpcHookElectron = '7.0.0'
+
+/** One traced message, from a renderer console line or a main-process record. */
+export type IpcTraceEntry = {
+  side?: 'renderer' | 'main'
+  direction?: string
+  kind?: string
+  channel?: string
+  id?: string
+  durationMs?: number
+  error?: string
+  result?: unknown
+  payload?: unknown
+  stubbed?: boolean
+}
+
+export const defaultRedactKeys = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'authorization',
+  'cookie',
+  'apiKey',
+]
+
+export type PayloadLimits = { maxChars: number; redact: string[] }
+
+/**
+ * JSON of `value` with redacted keys replaced by `[redacted]`, cut off after `maxChars`.
+ * Self-contained: it is also sent to the main process as source text.
+ */
+export const summarizePayload = (value: unknown, limits: PayloadLimits): string | undefined => {
+  if (value === undefined) return undefined
+  const redact = new Set(limits.redact.map((key) => key.toLowerCase()))
+  let text: string
+  try {
+    text =
+      JSON.stringify(value, (key, entry) => {
+        if (key && redact.has(key.toLowerCase())) return '[redacted]'
+        return typeof entry === 'bigint' ? String(entry) : entry
+      }) ?? String(value)
+  } catch {
+    text = String(value)
+  }
+  if (text.length <= limits.maxChars) return text
+  return `${text.slice(0, limits.maxChars)}…(+${text.length - limits.maxChars} chars)`
+}
+
+/**
+ * Functions below run in the Electron main process through `evalInMain`. They are sent as
+ * source text, so they must stay self-contained and only reach Electron through `require`.
+ */
+
+/**
+ * `ipcRenderer.invoke` event. Older Electron versions answer through `_reply` / `_throw`, which
+ * the handler stored by `ipcMain.handle` calls; newer ones answer with the handler's return value.
+ */
+type InvokeEvent = {
+  processId?: number
+  frameId?: number
+  _reply?: (result: unknown) => void
+  _throw?: (error: unknown) => void
+}
+
+type InvokeHandler = (event: InvokeEvent, ...args: unknown[]) => unknown
+
+type MainIpcState = {
+  tracing: boolean
+  limits: PayloadLimits
+  stubs: Map<string, IpcStubResponse>
+  seq: number
+  /** Announced ids by `processId:frameId`, consumed by the sender's next message. */
+  pending: Map<string, string>
+}
+
+/**
+ * Hooks `ipcMain` once: `handle` handlers (registered before or after) through the internal
+ * handler map, or by wrapping `ipcMain.handle` when there is none; `on` listeners through
+ * `ipcMain.emit`; and `webContents.send`. With `tracing` every call goes to run.log through
+ * `record` (`recordInMain`); stubbed `handle` channels answer without reaching the app's
+ * handler. Resolves which hooks could be installed.
+ */
+export const installMainIpcHooksInMain = (
+  { idChannel, tracing, limits }: { idChannel: string; tracing: boolean; limits: PayloadLimits },
+  summarize: (value: unknown, limits: PayloadLimits) => string | undefined,
+  record: (kind: MainRecord['kind'], entry: Record<string, unknown>, failed: boolean) => void,
+): MainIpcHooks => {
+  const holder = globalThis as { __eatMainIpc__?: MainIpcState & { hooks: MainIpcHooks } }
+  const existing = holder.__eatMainIpc__
+  if (existing) {
+    if (tracing) {
+      existing.tracing = true
+      existing.limits = limits
+    }
+    return existing.hooks
+  }
+
+  const { ipcMain, webContents } = require('electron') as {
+    ipcMain: {
+      emit: (channel: string | symbol, ...args: unknown[]) => boolean
+      handle?: (channel: string, handler: InvokeHandler) => void
+      _invokeHandlers?: unknown
+    }
+    webContents: { getAllWebContents: () => object[] }
+  }
+  const state: MainIpcState & { hooks: MainIpcHooks } = {
+    tracing,
+    limits,
+    stubs: new Map(),
+    seq: 0,
+    pending: new Map(),
+    hooks: { handles: false, existingHandles: false, sends: false },
+  }
+  holder.__eatMainIpc__ = state
+
+  const emit = (entry: Record<string, unknown>, failed: boolean) => {
+    record('ipc', { side: 'main', ...entry, ts: Date.now() }, failed)
+  }
+  const takeId = (event: { processId?: number; frameId?: number }) => {
+    const key = `${event.processId}:${event.frameId}`
+    const id = state.pending.get(key)
+    state.pending.delete(key)
+    state.seq += 1
+    return id ?? `m${state.seq}`
+  }
+  const errorText = (error: unknown) => (error as Error)?.message ?? String(error)
+
+  /** Runs `original` (or the stub) for one invoke, whichever way this Electron replies. */
+  const invoke = (
+    channel: string,
+    original: InvokeHandler | undefined,
+    event: InvokeEvent,
+    args: unknown[],
+  ): unknown => {
+    const id = takeId(event)
+    const started = Date.now()
+    const stub = state.stubs.get(channel)
+    const finish = (outcome: { result?: unknown; error?: string }) => {
+      if (!state.tracing && !stub) return
+      emit(
+        {
+          direction: 'renderer->main',
+          kind: 'handle',
+          channel,
+          id,
+          payload: summarize(args, state.limits),
+          durationMs: Date.now() - started,
+          ...(outcome.error !== undefined
+            ? { error: outcome.error }
+            : { result: summarize(outcome.result, state.limits) }),
+          ...(stub ? { stubbed: true } : {}),
+        },
+        outcome.error !== undefined,
+      )
+    }
+    const reply = event._reply
+    const thrown = event._throw
+    if (typeof reply === 'function' && typeof thrown === 'function') {
+      if (stub) {
+        if (stub.error !== undefined) {
+          finish({ error: stub.error })
+          thrown.call(event, new Error(stub.error))
+        } else {
+          finish({ result: stub.result })
+          reply.call(event, stub.result)
+        }
+        return undefined
+      }
+      event._reply = (result) => {
+        finish({ result })
+        reply.call(event, result)
+      }
+      event._throw = (error) => {
+        finish({ error: errorText(error) })
+        thrown.call(event, error)
+      }
+      return original?.(event, ...args)
+    }
+    if (stub) {
+      if (stub.error !== undefined) {
+        finish({ error: stub.error })
+        throw new Error(stub.error)
+      }
+      finish({ result: stub.result })
+      return stub.result
+    }
+    return Promise.resolve(original?.(event, ...args)).then(
+      (result) => {
+        finish({ result })
+        return result
+      },
+      (error: unknown) => {
+        finish({ error: errorText(error) })
+        throw error
+      },
+    )
+  }
+
+  const handlers = ipcMain._invokeHandlers
+  if (handlers instanceof Map) {
+    const map = handlers as Map<string, InvokeHandler>
+    const has = map.has.bind(map)
+    const get = map.get.bind(map)
+    map.has = (channel: string) => state.stubs.has(channel) || has(channel)
+    map.get = (channel: string) => {
+      const original = get(channel)
+      if (!state.tracing && !state.stubs.has(channel)) return original
+      return (event: InvokeEvent, ...args: unknown[]) => invoke(channel, original, event, args)
+    }
+    state.hooks.handles = true
+    state.hooks.existingHandles = true
+  } else if (typeof ipcMain.handle === 'function') {
+    // No handler map to hook: trace the handlers the app registers from now on.
+    const handle = ipcMain.handle
+    ipcMain.handle = function (this: unknown, channel: string, handler: InvokeHandler) {
+      return handle.call(this, channel, (event: InvokeEvent, ...args: unknown[]) =>
+        state.tracing ? invoke(channel, handler, event, args) : handler(event, ...args),
+      )
+    }
+    state.hooks.handles = true
+  }
+
+  const emitEvent = ipcMain.emit
+  ipcMain.emit = function (this: unknown, channel: string | symbol, ...args: unknown[]) {
+    const event = args[0] as
+      | { processId?: number; frameId?: number; sender?: unknown; returnValue?: unknown }
+      | undefined
+    if (typeof channel !== 'string' || !event?.sender) return emitEvent.call(this, channel, ...args)
+    if (channel === idChannel) {
+      state.pending.set(`${event.processId}:${event.frameId}`, String(args[1]))
+      return true
+    }
+    if (!state.tracing) return emitEvent.call(this, channel, ...args)
+    const id = takeId(event)
+    const handled = emitEvent.call(this, channel, ...args)
+    emit(
+      {
+        direction: 'renderer->main',
+        kind: 'on',
+        channel,
+        id,
+        payload: summarize(args.slice(1), state.limits),
+        ...(event.returnValue !== undefined
+          ? { result: summarize(event.returnValue, state.limits) }
+          : {}),
+      },
+      false,
+    )
+    return handled
+  }
+
+  const sample = webContents.getAllWebContents()[0]
+  const proto = sample
+    ? (Object.getPrototypeOf(sample) as { send?: (...args: unknown[]) => unknown })
+    : null
+  const send = proto?.send
+  if (proto && typeof send === 'function') {
+    proto.send = function (this: { id?: number }, channel: unknown, ...args: unknown[]) {
+      if (state.tracing && channel !== idChannel) {
+        state.seq += 1
+        const id = `m${state.seq}`
+        send.call(this, idChannel, { id, channel })
+        emit(
+          {
+            direction: 'main->renderer',
+            kind: 'send',
+            channel,
+            id,
+            payload: summarize(args, state.limits),
+            webContentsId: this.id,
+          },
+          false,
+        )
+      }
+      return send.call(this, channel, ...args)
+    }
+    state.hooks.sends = true
+  }
+  return state.hooks
+}
+
+/** Answers `ipcRenderer.invoke(channel)` with `response` instead of the app's handler. */
+export const setIpcStubInMain = ({
+  channel,
+  response,
+}: {
+  channel: string
+  response: IpcStubResponse
+}): boolean => {
+  const state = (globalThis as { __eatMainIpc__?: MainIpcState }).__eatMainIpc__
+  if (!state) return false
+  state.stubs.set(channel, response)
+  return true
+}
+
+/** Drops the stub for `channel`, or every stub; resolves how many were removed. */
+export const clearIpcStubsInMain = ({ channel }: { channel?: string | undefined }): number => {
+  const state = (globalThis as { __eatMainIpc__?: MainIpcState }).__eatMainIpc__
+  if (!state) return 0
+  if (channel !== undefined) return state.stubs.delete(channel) ? 1 : 0
+  const count = state.stubs.size
+  state.stubs.clear()
+  return count
+}
@@ -1,5 +1,6 @@
 import assert from 'node:assert'
-import { readdir } from 'node:fs/promises'
+import { access, mkdtemp, readdir, readFile, writeFile } from 'node:fs/promises'
+import os from 'node:os'
 import path from 'node:path'
 import { test } from 'node:test'
 import { fileURLToPath, pathToFileURL } from 'node:url'
@@ -53,3 +54,282 @@ test(
     }
   },
 )
+
+test('supervised launch records crashes and restarts the app', { concurrency: false }, async () => {
+  const { launchElectron, connectAndPick } = await loadLib()
+
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'supervise-spec',
+    headless: true,
+    supervise: { maxRestarts: 1, snapshotIntervalMs: 500 },
+  })
+
+  try {
+    const firstPid = launch.pid
+    const events = []
+    const restarted = new Promise((resolve) => {
+      launch.onLifecycle((event) => {
+        events.push(event)
+        if (event.type === 'restart') resolve(event)
+      })
+    })
+
+    await new Promise((resolve) => setTimeout(resolve, 1200))
+    const driver = await connectAndPick({ wsUrl: launch.wsUrl, runLogPath: launch.runLogPath })
+    await driver.evalInPreload(
+      () => globalThis.eatPing && globalThis.ipcRenderer.invoke('eat-crash'),
+    )
+    await driver.close().catch(() => {})
+
+    const restart = await restarted
+    assert.strictEqual(restart.attempt, 1)
+    assert.strictEqual(launch.restarts, 1)
+    assert.notStrictEqual(launch.pid, firstPid)
+    assert.strictEqual(launch.wsUrl, restart.wsUrl)
+
+    const crash = events.find((e) => e.type === 'crash')
+    assert.ok(crash, 'crash event emitted')
+    assert.strictEqual(crash.code, 3)
+    assert.ok(crash.artifacts.screenshot, 'last screenshot kept for the crash')
+
+    const runLog = await readFile(launch.runLogPath, 'utf-8')
+    assert.match(runLog, /\[system\] \[error\] crash code=3/)
+    assert.match(runLog, /\[system\] \[info\] run-restart/)
+  } finally {
+    await launch.quit()
+  }
+})
+
+test(
+  'launchElectron seeds an isolated profile and removes it on quit',
+  { concurrency: false },
+  async () => {
+    const { launchElectron } = await loadLib()
+    const seed = await mkdtemp(path.join(os.tmpdir(), 'eat-profile-'))
+    await writeFile(path.join(seed, 'seed-marker.txt'), 'seeded')
+
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'profile-spec',
+      headless: true,
+      profile: { seedFrom: seed },
+    })
+    const userDataDir = launch.userDataDir
+    try {
+      assert.strictEqual(userDataDir, path.resolve(launch.artifactDir, 'profile'))
+      assert.strictEqual(
+        await readFile(path.join(userDataDir, 'seed-marker.txt'), 'utf-8'),
+        'seeded',
+      )
+      const launchJson = JSON.parse(await readFile(launch.launchFile, 'utf-8'))
+      assert.strictEqual(launchJson.profile.dir, userDataDir)
+      assert.strictEqual(launchJson.profile.isolation, 'app-env')
+    } finally {
+      await launch.quit()
+    }
+    await assert.rejects(access(userDataDir), 'profile removed on quit')
+  },
+)
+
+test(
+  'evalInMain runs in the main process and streams its console',
+  { concurrency: false },
+  async () => {
+    const { launchElectron, connectAndPick } = await loadLib()
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'inspect-spec',
+      headless: true,
+      inspect: true,
+    })
+    try {
+      assert.ok(launch.inspectorUrl, 'inspector url resolved')
+      const driver = await connectAndPick({ wsUrl: launch.wsUrl, runLogPath: launch.runLogPath })
+      try {
+        const name = await driver.evalInMain(() => require('electron').app.getName())
+        assert.strictEqual(typeof name, 'string')
+        const windows = await driver.evalInMain(async (marker) => {
+          console.log(marker)
+          return require('electron').BrowserWindow.getAllWindows().length
+        }, 'main-console-marker')
+        assert.ok(windows >= 1)
+        await new Promise((resolve) => setTimeout(resolve, 200))
+        const log = await readFile(launch.runLogPath, 'utf-8')
+        assert.match(log, /\[main\] \[info\] main-console-marker/)
+        assert.strictEqual(
+          log.match(/main-console-marker/g).length,
+          1,
+          'tap and driver not doubled',
+        )
+      } finally {
+        await driver.close()
+      }
+
+      // The launcher keeps tapping main console while no driver is attached.
+      const again = await connectAndPick({ wsUrl: launch.wsUrl, runLogPath: launch.runLogPath })
+      await again.evalInMain(() => setTimeout(() => console.log('between-drivers'), 300))
+      await again.close()
+      await new Promise((resolve) => setTimeout(resolve, 800))
+      const log = await readFile(launch.runLogPath, 'utf-8')
+      assert.match(log, /\[main\] \[(log|info)\] between-drivers/)
+    } finally {
+      await launch.quit()
+    }
+  },
+)
+
+test('inspector requests time out when the main process never answers', async () => {
+  const { WebSocketServer } = await import('ws')
+  const { NodeInspectorSession } = await import(
+    pathToFileURL(path.join(root, 'dist/lib/node-inspector.js')).href
+  )
+  const server = new WebSocketServer({ port: 0 })
+  await new Promise((resolve) => server.once('listening', resolve))
+  try {
+    const session = await NodeInspectorSession.connect(`ws://127.0.0.1:${server.address().port}`)
+    await assert.rejects(
+      session.send('Runtime.evaluate', { expression: '1' }, 200),
+      (error) => error.code === 'E_WAIT_TIMEOUT',
+    )
+    await session.close()
+  } finally {
+    for (const client of server.clients) client.terminate()
+    await new Promise((resolve) => server.close(resolve))
+  }
+})
+
+test('launchElectron waits for readiness probes', { concurrency: false }, async () => {
+  const { launchElectron } = await loadLib()
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'ready-spec',
+    headless: true,
+    ready: [
+      { log: /main-ready/, source: 'stdout' },
+      { window: { titleContains: 'Mini App' } },
+      { predicate: () => document.getElementById('title') !== null },
+    ],
+  })
+  try {
+    const log = await readFile(launch.runLogPath, 'utf-8')
+    assert.match(log, /\[system\] \[info\] ready probes=3/)
+  } finally {
+    await launch.quit()
+  }
+
+  await assert.rejects(
+    launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'ready-timeout-spec',
+      headless: true,
+      ready: { window: { titleContains: 'No Such Window' }, timeoutMs: 1000 },
+    }),
+    (error) => {
+      assert.strictEqual(error.code, 'E_READY_TIMEOUT')
+      assert.match(error.details.probe, /No Such Window/)
+      return true
+    },
+  )
+})
+
+test('launch.json records the environment fingerprint', { concurrency: false }, async () => {
+  const { launchElectron } = await loadLib()
+  const launch = await launchElectron({
+    command: electronBin,
+    args: [path.join(root, 'fixtures/main.js')],
+    artifactPrefix: 'fingerprint-spec',
+    headless: true,
+    env: { FIXTURE_FLAG: 'on', FIXTURE_API_TOKEN: 'hunter2' },
+  })
+  try {
+    const { environment } = JSON.parse(await readFile(launch.launchFile, 'utf-8'))
+    assert.ok(environment.versions.electron, 'electron version from /json/version')
+    assert.ok(environment.versions.v8)
+    assert.strictEqual(environment.node, process.version)
+    assert.deepStrictEqual(environment.envOverrides, {
+      FIXTURE_FLAG: 'on',
+      FIXTURE_API_TOKEN: '***',
+    })
+    assert.strictEqual(environment.app.name, 'electron-agent-tools')
+    assert.deepStrictEqual(launch.environment, environment)
+
+    const log = await readFile(launch.runLogPath, 'utf-8')
+    assert.match(log, /run-start .*node=v\d+/)
+    assert.match(log, /\[system\] \[info\] environment electron=\S+ chrome=\S+ v8=\S+/)
+    assert.doesNotMatch(log, /hunter2/)
+  } finally {
+    await launch.quit()
+  }
+})
+
+test(
+  'quit({ graceful: true }) lets the app run its quit handlers',
+  { concurrency: false },
+  async () => {
+    const { launchElectron, connectAndPick } = await loadLib()
+    const marker = path.join(await mkdtemp(path.join(os.tmpdir(), 'eat-quit-')), 'will-quit.txt')
+    const launch = await launchElectron({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactPrefix: 'graceful-quit-spec',
+      headless: true,
+      inspect: true,
+    })
+    const driver = await connectAndPick({ wsUrl: launch.wsUrl })
+    await driver.evalInMain((file) => {
+      const fs = require('node:fs')
+      require('electron').app.on('will-quit', () => fs.writeFileSync(file, 'flushed'))
+    }, marker)
+    await driver.close()
+
+    await launch.quit({ graceful: true })
+
+    assert.strictEqual(await readFile(marker, 'utf-8'), 'flushed')
+    const log = await readFile(launch.runLogPath, 'utf-8')
+    assert.match(log, /run-end .*quitPath=graceful gracefulVia=app-quit/)
+  },
+)
+
+test(
+  'launchPool starts isolated instances and quits them together',
+  { concurrency: false },
+  async () => {
+    const { launchPool } = await loadLib()
+    const artifactDir = await mkdtemp(path.join(os.tmpdir(), 'eat-pool-'))
+    const pool = await launchPool({
+      command: electronBin,
+      args: [path.join(root, 'fixtures/main.js')],
+      artifactDir,
+      headless: true,
+      size: 2,
+    })
+    try {
+      const ports = pool.instances.map((instance) => instance.cdpPort)
+      assert.strictEqual(new Set(ports).size, 2, 'distinct CDP ports')
+      const dirs = pool.instances.map((instance) => instance.artifactDir)
+      assert.deepStrictEqual(
+        dirs.map((dir) => path.relative(pool.dir, dir)),
+        ['instance-0', 'instance-1'],
+      )
+      assert.notStrictEqual(pool.instances[0].userDataDir, pool.instances[1].userDataDir)
+
+      const manifest = JSON.parse(await readFile(pool.manifestPath, 'utf-8'))
+      assert.strictEqual(manifest.size, 2)
+      assert.deepStrictEqual(
+        manifest.instances.map((entry) => entry.wsUrl),
+        pool.instances.map((instance) => instance.wsUrl),
+      )
+    } finally {
+      await pool.quitAll()
+    }
+    for (const instance of pool.instances) {
+      await assert.rejects(access(instance.userDataDir), 'profile removed on quitAll')
+    }
+  },
+)
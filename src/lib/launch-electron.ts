@@ -1,13 +1,30 @@
-import { execFile, spawn } from 'node:child_process'
+import { type ChildProcess, execFile, spawn } from 'node:child_process'
+import { EventEmitter } from 'node:events'
 import { writeFile } from 'node:fs/promises'
 import { createServer } from 'node:net'
 import * as path from 'node:path'
 
 import { prepareArtifactRun } from './artifacts.js'
+import { type SnapshotRecorder, startSnapshotRecorder } from './crash-snapshots.js'
 import type { LaunchErrorCode } from './error-codes.js'
-import { getWsUrl } from './get-ws-url.js'
+import { collectFingerprint, fingerprintLogMeta, staticFingerprint } from './fingerprint.js'
+import { getInspectorWsUrl, getWsUrl } from './get-ws-url.js'
+import { quitPathOf, requestAppQuit } from './graceful-quit.js'
+import { launchFilePath, updateLaunchFile, writeLaunchFile } from './launch-file.js'
+import { tapMainConsole } from './main-console.js'
+import type { NodeInspectorSession } from './node-inspector.js'
+import { disposeProfile, type PreparedProfile, prepareProfile, userDataDirEnv } from './profile.js'
+import { LineTap, runReadyProbes } from './ready-probes.js'
 import { openRunLogger } from './run-log.js'
-import type { LaunchOptions, LaunchResult } from './types.js'
+import { isAlive } from './run-status.js'
+import type {
+  EnvironmentFingerprint,
+  LaunchLifecycleEvent,
+  LaunchOptions,
+  LaunchResult,
+  QuitOptions,
+} from './types.js'
+import { needsXvfb, startXvfb, type XvfbServer } from './xvfb.js'
 
 export class LaunchError extends Error {
   code: LaunchErrorCode
@@ -22,9 +39,24 @@ export class LaunchError extends Error {
 
 const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
-type PsRow = { pid: number; ppid: number; cmd: string; depth: number }
+const waitForChildExit = async (child: ChildProcess, timeoutMs: number): Promise<boolean> => {
+  if (child.exitCode !== null || child.signalCode !== null) return true
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      child.off('exit', onExit)
+      resolve(false)
+    }, timeoutMs)
+    const onExit = () => {
+      clearTimeout(timer)
+      resolve(true)
+    }
+    child.once('exit', onExit)
+  })
+}
+
+export type PsRow = { pid: number; ppid: number; cmd: string; depth: number }
 
-const listChildren = async (pid: number): Promise<PsRow[]> =>
+export const listChildren = async (pid: number): Promise<PsRow[]> =>
   new Promise((resolve) => {
     execFile('ps', ['-eo', 'pid=', '-o', 'ppid=', '-o', 'command='], (err, stdout) => {
       if (err || !stdout) return resolve([])
@@ -62,7 +94,7 @@ const listChildren = async (pid: number): Promise<PsRow[]> =>
     })
   })
 
-const findPort = async (preferred?: number): Promise<number> =>
+export const findPort = async (preferred?: number): Promise<number> =>
   new Promise((resolve, reject) => {
     const server = createServer()
     server.unref()
@@ -86,15 +118,6 @@ const findPort = async (preferred?: number): Promise<number> =>
     })
   })
 
-const isAlive = (pid: number): boolean => {
-  try {
-    process.kill(pid, 0)
-    return true
-  } catch {
-    return false
-  }
-}
-
 export const terminateTree = async (
   pid: number,
   {
@@ -171,8 +194,26 @@ export const terminateTree = async (
   return false
 }
 
+const resolveSupervise = (value: LaunchOptions['supervise']) => {
+  if (!value) return null
+  const opts = value === true ? {} : value
+  return {
+    maxRestarts: Math.max(0, opts.maxRestarts ?? 0),
+    snapshotIntervalMs: opts.snapshotIntervalMs ?? 2_000,
+  }
+}
+
+type Instance = {
+  child: ChildProcess
+  wsUrl: string
+  electronPid: number | undefined
+  inspectorUrl: string | undefined
+  environment: EnvironmentFingerprint
+}
+
 export const launchElectron = async (opts: LaunchOptions): Promise<LaunchResult> => {
   const debug = Boolean(process.env.DEBUG_LAUNCH)
+  const supervise = resolveSupervise(opts.supervise)
   const artifactRun = await prepareArtifactRun({
     artifactDir: opts.artifactDir,
     artifactPrefix: opts.artifactPrefix,
@@ -193,6 +234,48 @@ export const launchElectron = async (opts: LaunchOptions): Promise<LaunchResult>
   )
   const runLogger = openRunLogger(artifactRun.dir)
 
+  let profile: PreparedProfile | null
+  try {
+    profile = await prepareProfile(artifactRun.dir, opts.profile)
+  } catch (error) {
+    runLogger.close()
+    throw new LaunchError('E_SPAWN', 'Failed to prepare userData profile', {
+      error,
+      runLogPath: runLogger.path,
+    })
+  }
+  const userDataDirArg =
+    profile?.isolation === 'user-data-dir' ? [`--user-data-dir=${profile.dir}`] : []
+  if (profile?.isolation === 'app-env') {
+    runLogger.log('system', 'info', 'profile-env-only', {
+      dir: profile.dir,
+      hint: `Isolated only if the app reads ${userDataDirEnv}; set profile.userDataDirArg to pass --user-data-dir.`,
+    })
+  }
+  const inspectPort =
+    typeof opts.inspect === 'number' ? opts.inspect : opts.inspect ? await findPort() : undefined
+  const inspectArg = inspectPort ? [`--inspect=${inspectPort}`] : []
+  const args = [...(opts.args ?? []), ...userDataDirArg, ...inspectArg]
+
+  let xvfb: XvfbServer | null = null
+  if (needsXvfb(opts.display, Boolean(opts.headless), { ...process.env, ...opts.env })) {
+    try {
+      xvfb = await startXvfb()
+      runLogger.log('system', 'info', 'xvfb-started', { display: xvfb.display, pid: xvfb.pid })
+    } catch (error) {
+      if (opts.display === 'xvfb') {
+        if (profile) await disposeProfile(profile).catch(() => {})
+        runLogger.close()
+        throw new LaunchError('E_SPAWN', 'Failed to start Xvfb', {
+          error,
+          stderr: (error as { stderr?: string }).stderr,
+          runLogPath: runLogger.path,
+        })
+      }
+      runLogger.log('system', 'warn', 'xvfb-unavailable', { error: (error as Error).message })
+    }
+  }
+
   const cdpPort = opts.cdpPort ?? (await findPort())
 
   const env: NodeJS.ProcessEnv = {
@@ -201,82 +284,27 @@ export const launchElectron = async (opts: LaunchOptions): Promise<LaunchResult>
     NODE_ENV: 'test',
     ELECTRON_ENABLE_LOGGING: '1',
     E2E_CDP_PORT: String(cdpPort),
+    ...(profile ? { [userDataDirEnv]: profile.dir } : {}),
+    ...(inspectPort ? { E2E_INSPECT_PORT: String(inspectPort) } : {}),
     ...opts.env,
+    ...(xvfb ? { DISPLAY: xvfb.display } : {}),
   }
 
   const nodeOptionsParts = [env.NODE_OPTIONS, `--require ${guardPath}`].filter(Boolean)
   env.NODE_OPTIONS = nodeOptionsParts.join(' ').trim()
   if (opts.headless) env.E2E_HEADLESS = '1'
 
-  const child = spawn(opts.command, opts.args ?? [], {
+  const baseFingerprint = await staticFingerprint({
+    args,
     cwd: opts.cwd ?? process.cwd(),
-    env,
-    stdio: ['ignore', 'pipe', 'pipe'],
-    detached: true,
-  })
-
-  child.unref()
-
-  if (debug) {
-    process.stderr.write(`DEBUG_LAUNCH start pid=${child.pid} cdpPort=${cdpPort}\n`)
-  }
-
-  runLogger.log('system', 'info', 'run-start', {
-    command: opts.command,
-    args: (opts.args ?? []).join(' '),
-    cdpPort,
-    pid: child.pid,
+    env: opts.env,
   })
 
-  child.stdout?.on('data', (chunk) => runLogger.logChunk('stdout', 'info', chunk))
-  child.stderr?.on('data', (chunk) => runLogger.logChunk('stderr', 'error', chunk))
-
-  let streamsClosed = false
-  const closeStreams = () => {
-    if (streamsClosed) return
-    streamsClosed = true
-    try {
-      child.stdout?.removeAllListeners()
-      child.stderr?.removeAllListeners()
-      child.stdout?.destroy()
-      child.stderr?.destroy()
-    } catch {}
-  }
-
-  let cdpReady = false
-  let removeEarlyListeners: (() => void) | undefined
-
-  const earlyFailurePromise = new Promise<never>((_, reject) => {
-    const onError = (err: Error) => {
-      if (cdpReady) return
-      removeEarlyListeners?.()
-      reject(
-        new LaunchError('E_SPAWN', 'Failed to spawn Electron', {
-          error: err,
-          runLogPath: runLogger.path,
-        }),
-      )
-    }
-    const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
-      if (cdpReady) return
-      removeEarlyListeners?.()
-      reject(
-        new LaunchError('E_EXIT_EARLY', 'Electron exited before CDP became ready', {
-          code,
-          signal,
-          runLogPath: runLogger.path,
-        }),
-      )
-    }
-    removeEarlyListeners = () => {
-      child.off('error', onError)
-      child.off('exit', onExit)
-      child.off('close', onExit)
-    }
-    child.on('error', onError)
-    child.on('exit', onExit)
-    child.on('close', onExit)
-  })
+  const logFn = debug
+    ? (msg: string, meta?: unknown) => {
+        process.stderr.write(`DEBUG_LAUNCH ${msg} ${JSON.stringify(meta)}\n`)
+      }
+    : undefined
 
   const resolveElectronPid = async (rootPid: number): Promise<number> => {
     const descendants = await listChildren(rootPid)
@@ -321,95 +349,430 @@ export const launchElectron = async (opts: LaunchOptions): Promise<LaunchResult>
     return ranked[0]?.pid ?? rootPid
   }
 
-  let electronPidResolved: number | undefined
+  const terminateInstance = async (
+    child: ChildProcess,
+    electronPid: number | undefined,
+  ): Promise<boolean> => {
+    if (!child.pid) return true
+    const okRoot = await terminateTree(child.pid, logFn ? { logger: logFn } : undefined)
+    if (!okRoot) return false
+    if (electronPid && electronPid !== child.pid) {
+      await terminateTree(electronPid, logFn ? { logger: logFn } : undefined)
+    }
 
-  const quit = async () => {
-    if (child.pid) {
-      const logFn = debug
-        ? (msg: string, meta?: unknown) => {
-            process.stderr.write(`DEBUG_LAUNCH ${msg} ${JSON.stringify(meta)}\n`)
-          }
-        : undefined
+    // Final sweep: kill any remaining descendants of the root (renderer/GPU helpers).
+    const leftover = await listChildren(child.pid)
+    if (leftover.length && logFn) logFn('leftover descendants', leftover)
+    for (const proc of leftover) {
+      try {
+        process.kill(proc.pid, 'SIGKILL')
+      } catch {}
+    }
+    return true
+  }
 
-      const okRoot = await terminateTree(child.pid, logFn ? { logger: logFn } : undefined)
-      if (!okRoot)
-        throw new LaunchError('E_SPAWN', 'Failed to terminate Electron process', { pid: child.pid })
-      if (electronPidResolved && electronPidResolved !== child.pid) {
-        await terminateTree(electronPidResolved, logFn ? { logger: logFn } : undefined)
+  const readyProbes = opts.ready ? (Array.isArray(opts.ready) ? opts.ready : [opts.ready]) : []
+
+  const waitUntilReady = async (child: ChildProcess, wsUrl: string, lines: LineTap) => {
+    const startedAt = Date.now()
+    const stopProbes = new AbortController()
+    let onExit: ((code: number | null, signal: NodeJS.Signals | null) => void) | undefined
+    const exited = new Promise<never>((_, reject) => {
+      onExit = (code, signal) =>
+        reject(
+          new LaunchError('E_EXIT_EARLY', 'Electron exited before readiness probes passed', {
+            code,
+            signal,
+            runLogPath: runLogger.path,
+          }),
+        )
+      child.once('exit', onExit)
+    })
+    try {
+      const failure = await Promise.race([
+        runReadyProbes({
+          probes: readyProbes,
+          wsUrl,
+          lines,
+          defaultTimeoutMs: opts.readyTimeoutMs ?? 30_000,
+          signal: stopProbes.signal,
+        }),
+        exited,
+      ])
+      if (failure) {
+        runLogger.log('system', 'error', 'ready-timeout', { ...failure })
+        throw new LaunchError(
+          'E_READY_TIMEOUT',
+          `Readiness probe "${failure.probe}" did not pass within ${failure.timeoutMs}ms`,
+          { ...failure, runLogPath: runLogger.path },
+        )
       }
+      runLogger.log('system', 'info', 'ready', {
+        probes: readyProbes.length,
+        elapsedMs: Date.now() - startedAt,
+      })
+    } finally {
+      stopProbes.abort()
+      if (onExit) child.off('exit', onExit)
+    }
+  }
 
-      // Final sweep: kill any remaining descendants of the root (renderer/GPU helpers).
-      const leftover = await listChildren(child.pid)
-      if (leftover.length && logFn) logFn('leftover descendants', leftover)
-      for (const proc of leftover) {
-        try {
-          process.kill(proc.pid, 'SIGKILL')
-        } catch {}
-      }
+  const spawnInstance = async (attempt: number): Promise<Instance> => {
+    const child = spawn(opts.command, args, {
+      cwd: opts.cwd ?? process.cwd(),
+      env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
+    })
+
+    child.unref()
+
+    if (debug) {
+      process.stderr.write(`DEBUG_LAUNCH start pid=${child.pid} cdpPort=${cdpPort}\n`)
     }
-    runLogger.log('system', 'info', 'run-end', {
+
+    runLogger.log('system', 'info', attempt === 0 ? 'run-start' : 'run-restart', {
+      command: opts.command,
+      args: args.join(' '),
+      cdpPort,
       pid: child.pid,
-      electronPid: electronPidResolved,
+      userDataDir: attempt === 0 ? profile?.dir : undefined,
+      attempt: attempt === 0 ? undefined : attempt,
+      ...fingerprintLogMeta(baseFingerprint),
     })
-    closeStreams()
-    runLogger.close()
+
+    const lines = new LineTap()
+    child.stdout?.on('data', (chunk) => {
+      runLogger.logChunk('stdout', 'info', chunk)
+      lines.push('stdout', chunk)
+    })
+    child.stderr?.on('data', (chunk) => {
+      runLogger.logChunk('stderr', 'error', chunk)
+      lines.push('stderr', chunk)
+    })
+
+    let streamsClosed = false
+    const closeStreams = () => {
+      if (streamsClosed) return
+      streamsClosed = true
+      try {
+        child.stdout?.removeAllListeners()
+        child.stderr?.removeAllListeners()
+        child.stdout?.destroy()
+        child.stderr?.destroy()
+      } catch {}
+    }
+
+    let cdpReady = false
+    let removeEarlyListeners: (() => void) | undefined
+
+    const earlyFailurePromise = new Promise<never>((_, reject) => {
+      const onError = (err: Error) => {
+        if (cdpReady) return
+        removeEarlyListeners?.()
+        reject(
+          new LaunchError('E_SPAWN', 'Failed to spawn Electron', {
+            error: err,
+            runLogPath: runLogger.path,
+          }),
+        )
+      }
+      const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+        if (cdpReady) return
+        removeEarlyListeners?.()
+        reject(
+          new LaunchError('E_EXIT_EARLY', 'Electron exited before CDP became ready', {
+            code,
+            signal,
+            runLogPath: runLogger.path,
+          }),
+        )
+      }
+      removeEarlyListeners = () => {
+        child.off('error', onError)
+        child.off('exit', onExit)
+        child.off('close', onExit)
+      }
+      child.on('error', onError)
+      child.on('exit', onExit)
+      child.on('close', onExit)
+    })
+
+    try {
+      const wsUrl = await Promise.race([
+        getWsUrl({ port: cdpPort, timeoutMs: opts.timeoutMs ?? 40_000 }),
+        earlyFailurePromise,
+      ])
+      cdpReady = true
+      removeEarlyListeners?.()
+
+      await wait(300)
+      const electronPid = child.pid ? await resolveElectronPid(child.pid) : undefined
+      runLogger.log('system', 'info', 'cdp-ready', {
+        wsUrl,
+        cdpPort,
+        pid: child.pid,
+        electronPid,
+      })
+      const environment = await collectFingerprint(baseFingerprint, { cdpPort, electronPid })
+      // Versions and the resolved command line only exist once the app is up.
+      runLogger.log('system', 'info', 'environment', fingerprintLogMeta(environment))
+      let inspectorUrl: string | undefined
+      if (inspectPort) {
+        inspectorUrl = await getInspectorWsUrl({ port: inspectPort, timeoutMs: 5_000 }).catch(
+          () => undefined,
+        )
+        if (inspectorUrl) {
+          runLogger.log('system', 'info', 'inspector-ready', { inspectorUrl, inspectPort })
+        } else {
+          runLogger.log('system', 'warn', 'inspector-unavailable', { inspectPort })
+        }
+      }
+      if (readyProbes.length) await waitUntilReady(child, wsUrl, lines)
+      return { child, wsUrl, electronPid, inspectorUrl, environment }
+    } catch (error) {
+      removeEarlyListeners?.()
+      await terminateInstance(child, undefined)
+      if (debug) {
+        process.stderr.write(
+          `DEBUG_LAUNCH error pid=${child.pid ?? -1} ${(error as Error).message}\n`,
+        )
+      }
+      if (error instanceof LaunchError) throw error
+      throw new LaunchError('E_CDP_TIMEOUT', 'Timed out waiting for CDP', { error })
+    } finally {
+      closeStreams()
+    }
   }
 
+  let current: Instance
   try {
-    const wsUrl = await Promise.race([
-      getWsUrl({ port: cdpPort, timeoutMs: opts.timeoutMs ?? 40_000 }),
-      earlyFailurePromise,
-    ])
-    cdpReady = true
-    removeEarlyListeners?.()
-
-    await wait(300)
-    electronPidResolved = child.pid ? await resolveElectronPid(child.pid) : undefined
-    runLogger.log('system', 'info', 'cdp-ready', {
-      wsUrl,
-      cdpPort,
-      pid: child.pid,
-      electronPid: electronPidResolved,
-    })
-    const launchFile = path.join(artifactRun.dir, 'launch.json')
-    await writeFile(
-      launchFile,
-      JSON.stringify(
-        {
-          wsUrl,
-          pid: child.pid,
-          electronPid: electronPidResolved,
-          cdpPort,
-          artifactDir: artifactRun.dir,
-          runLogPath: runLogger.path,
-        },
-        null,
-        2,
-      ),
-      'utf-8',
-    )
-    runLogger.log('system', 'info', 'launch-file-written', { path: launchFile })
+    current = await spawnInstance(0)
+  } catch (error) {
+    if (profile) await disposeProfile(profile).catch(() => {})
+    await xvfb?.stop()
+    runLogger.log('system', 'info', 'run-end', {})
+    runLogger.close()
+    throw error
+  }
 
-    return {
-      wsUrl,
-      pid: child.pid ?? -1,
-      electronPid: electronPidResolved,
+  const emitter = new EventEmitter()
+  const emit = (event: LaunchLifecycleEvent) => emitter.emit('lifecycle', event)
+  let quitting = false
+  let restarts = 0
+  let crashCount = 0
+  let recorder: SnapshotRecorder | null = null
+  let consoleTap: NodeInspectorSession | null = null
+
+  const launchFile = launchFilePath(artifactRun.dir)
+  const launchedAt = new Date().toISOString()
+  // Restarts merge into the existing file so entries added by other tools survive.
+  const writeLaunch = async (fresh: boolean) => {
+    const data = {
+      wsUrl: current.wsUrl,
+      pid: current.child.pid,
+      electronPid: current.electronPid,
+      command: opts.command,
       cdpPort,
       artifactDir: artifactRun.dir,
       runLogPath: runLogger.path,
-      launchFile,
-      quit,
+      profile: profile ?? undefined,
+      display: env.DISPLAY
+        ? {
+            value: env.DISPLAY,
+            source: xvfb ? ('xvfb' as const) : ('inherit' as const),
+            xvfbPid: xvfb?.pid,
+          }
+        : undefined,
+      inspectPort,
+      inspectorUrl: current.inspectorUrl,
+      environment: current.environment,
+      mainConsoleTap: consoleTap ? { pid: process.pid } : undefined,
+      launchedAt,
+      ...(supervise ? { supervisorPid: process.pid, restarts } : {}),
     }
-  } catch (error) {
-    await quit()
-    if (debug) {
-      process.stderr.write(
-        `DEBUG_LAUNCH error pid=${child.pid ?? -1} ${(error as Error).message}\n`,
-      )
+    if (fresh) await writeLaunchFile(launchFile, data)
+    else await updateLaunchFile(launchFile, data)
+    runLogger.log('system', 'info', 'launch-file-written', { path: launchFile })
+  }
+
+  // stdout stops being captured once the app is ready; the tap carries main console from there.
+  const startConsoleTap = async () => {
+    await consoleTap?.close()
+    consoleTap =
+      opts.tapMainConsole !== false && current.inspectorUrl
+        ? await tapMainConsole(current.inspectorUrl, runLogger)
+        : null
+  }
+
+  const startRecorder = async () => {
+    if (!supervise?.snapshotIntervalMs) return
+    recorder = await startSnapshotRecorder({
+      wsUrl: current.wsUrl,
+      dir: path.join(artifactRun.dir, '.snapshots'),
+      intervalMs: supervise.snapshotIntervalMs,
+    }).catch(() => null)
+  }
+
+  const handleExit = async (
+    instance: Instance,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ) => {
+    const pid = instance.child.pid ?? -1
+    const lastRecorder = recorder
+    recorder = null
+    await lastRecorder?.stop()
+
+    if (code === 0 && !signal) {
+      runLogger.log('system', 'info', 'app-exit', { code, pid })
+      emit({ type: 'exit', code, signal, pid })
+      return
+    }
+
+    crashCount += 1
+    const dir = path.join(artifactRun.dir, `crash-${crashCount}`)
+    const saved = lastRecorder ? await lastRecorder.saveTo(dir) : {}
+    const willRestart = Boolean(supervise && restarts < supervise.maxRestarts)
+    runLogger.log('system', 'error', 'crash', {
+      code,
+      signal,
+      pid,
+      electronPid: instance.electronPid,
+      crashCount,
+      willRestart,
+      screenshot: saved.screenshot,
+      dom: saved.dom,
+    })
+    emit({
+      type: 'crash',
+      code,
+      signal,
+      pid,
+      crashCount,
+      willRestart,
+      artifacts: { dir, ...saved },
+    })
+
+    // The root is gone but renderer/GPU helpers in its process group may linger.
+    await terminateInstance(instance.child, instance.electronPid).catch(() => {})
+    if (!willRestart || quitting) return
+
+    restarts += 1
+    try {
+      const next = await spawnInstance(restarts)
+      if (quitting) {
+        await terminateInstance(next.child, next.electronPid)
+        return
+      }
+      current = next
+      await startConsoleTap()
+      await writeLaunch(false)
+      await startRecorder()
+      watch(next)
+      emit({
+        type: 'restart',
+        attempt: restarts,
+        wsUrl: next.wsUrl,
+        pid: next.child.pid ?? -1,
+        electronPid: next.electronPid,
+      })
+    } catch (error) {
+      runLogger.log('system', 'error', 'restart-failed', {
+        attempt: restarts,
+        error: (error as Error).message,
+      })
+      emit({ type: 'restart-failed', attempt: restarts, error: error as Error })
+    }
+  }
+
+  const watch = (instance: Instance) => {
+    if (!supervise) return
+    const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+      if (quitting || instance !== current) return
+      handleExit(instance, code, signal).catch(() => {})
     }
-    if (error instanceof LaunchError) throw error
+    if (instance.child.exitCode !== null || instance.child.signalCode !== null) {
+      onExit(instance.child.exitCode, instance.child.signalCode)
+      return
+    }
+    instance.child.once('exit', onExit)
+  }
+
+  const quitGracefully = async (instance: Instance, timeoutMs: number) => {
+    const via = await requestAppQuit({ inspectorUrl: instance.inspectorUrl, wsUrl: instance.wsUrl })
+    if (!via) return { via: null, exited: false }
+    const exited = await waitForChildExit(instance.child, timeoutMs)
+    return { via, exited }
+  }
+
+  const quit = async (quitOpts: QuitOptions = {}) => {
+    quitting = true
+    await recorder?.stop()
+    recorder = null
+    await consoleTap?.close()
+    consoleTap = null
+    const { child, electronPid } = current
+    const graceful = quitOpts.graceful
+      ? await quitGracefully(current, quitOpts.timeoutMs ?? 5_000)
+      : null
+    // Even after a clean exit, sweep the tree: helpers can outlive the main process.
+    const ok = await terminateInstance(child, electronPid)
+    if (!ok)
+      throw new LaunchError('E_SPAWN', 'Failed to terminate Electron process', { pid: child.pid })
+    if (profile) await disposeProfile(profile).catch(() => {})
+    await xvfb?.stop()
+    runLogger.log('system', 'info', 'run-end', {
+      pid: child.pid,
+      electronPid,
+      quitPath: quitPathOf(graceful?.via ?? null, graceful?.exited === true),
+      gracefulVia: graceful?.via ?? undefined,
+      escalated: graceful && !graceful.exited ? true : undefined,
+      exitCode: child.exitCode ?? undefined,
+      profileKept: profile?.keep || undefined,
+    })
+    runLogger.close()
+  }
+
+  try {
+    await startConsoleTap()
+    await writeLaunch(true)
+  } catch (error) {
+    await quit().catch(() => {})
     throw new LaunchError('E_CDP_TIMEOUT', 'Timed out waiting for CDP', { error })
-  } finally {
-    closeStreams()
+  }
+  await startRecorder()
+  watch(current)
+
+  return {
+    get wsUrl() {
+      return current.wsUrl
+    },
+    get pid() {
+      return current.child.pid ?? -1
+    },
+    get electronPid() {
+      return current.electronPid
+    },
+    get inspectorUrl() {
+      return current.inspectorUrl
+    },
+    get environment() {
+      return current.environment
+    },
+    cdpPort,
+    artifactDir: artifactRun.dir,
+    runLogPath: runLogger.path,
+    launchFile,
+    display: env.DISPLAY,
+    userDataDir: profile?.dir,
+    get restarts() {
+      return restarts
+    },
+    onLifecycle: (cb) => {
+      emitter.on('lifecycle', cb)
+      return () => emitter.off('lifecycle', cb)
+    },
+    quit,
   }
 }
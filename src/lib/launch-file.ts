@@ -0,0 +1,113 @@
+import { access, readFile, writeFile } from 'node:fs/promises'
+import * as path from 'node:path'
+
+import type { EnvironmentFingerprint } from './types.js'
+
+export type LaunchFileData = {
+  wsUrl?: string | undefined
+  pid?: number | undefined
+  electronPid?: number | undefined
+  /** Command launchElectron spawned; lets `gc` tell a recycled pid from the original app. */
+  command?: string | undefined
+  cdpPort?: number | undefined
+  artifactDir?: string | undefined
+  /** Electron/Chromium/V8 versions, command line, env overrides, OS, Node and app version. */
+  environment?: EnvironmentFingerprint | undefined
+  runLogPath?: string | undefined
+  inspectPort?: number | undefined
+  /** Node inspector WebSocket of the main process (`inspect` launches only). */
+  inspectorUrl?: string | undefined
+  /** Process streaming main-process console into run.log; drivers leave those lines to it. */
+  mainConsoleTap?: { pid: number } | undefined
+  /** X display used by the app; `xvfbPid` is set when launchElectron started the server. */
+  display?: { value: string; source: 'xvfb' | 'inherit'; xvfbPid?: number | undefined } | undefined
+  /**
+   * Isolated profile; deleted by `quit` unless `keep` is set. `isolation: 'app-env'` means only
+   * `E2E_USER_DATA_DIR` points at it, so it isolates nothing unless the app reads that variable.
+   */
+  profile?:
+    | {
+        dir: string
+        keep: boolean
+        seededFrom?: string | undefined
+        isolation?: 'user-data-dir' | 'app-env' | undefined
+      }
+    | undefined
+  /** Pid of the process supervising the app (`supervise` launches only). */
+  supervisorPid?: number | undefined
+  restarts?: number | undefined
+  /** Set while a `browser-tools serve` daemon is attached to this run. */
+  daemon?: { socketPath: string; pid: number; startedAt: string } | undefined
+  /** When the app was first launched; restarts keep it. */
+  launchedAt?: string | undefined
+  [key: string]: unknown
+}
+
+export const launchFileName = 'launch.json'
+
+/** Manifest of a launch pool, next to its `instance-<n>/` run dirs. */
+export const poolManifestName = 'pool.json'
+
+export const launchFilePath = (runDir: string): string => path.join(runDir, launchFileName)
+
+/**
+ * Timestamp of the last `browser-tools` command (direct or through the daemon) that picked up a
+ * driver. It lives next to launch.json so frequent commands never rewrite that file.
+ */
+export const driverActivityFileName = 'driver-activity'
+
+/**
+ * Reads and parses a launch.json file; returns null when missing or malformed.
+ */
+export const readLaunchFile = async (filePath: string): Promise<LaunchFileData | null> => {
+  try {
+    const raw = await readFile(filePath, 'utf-8')
+    const parsed = JSON.parse(raw) as unknown
+    return parsed && typeof parsed === 'object' ? (parsed as LaunchFileData) : null
+  } catch {
+    return null
+  }
+}
+
+export const writeLaunchFile = async (filePath: string, data: LaunchFileData): Promise<void> => {
+  await writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8')
+}
+
+/**
+ * Stamps the run's `driver-activity` file; `gc` measures idleness from it. Runs without a
+ * launch.json (attached to an app launched elsewhere) are left alone.
+ */
+export const touchDriverActivity = async (runDir: string): Promise<void> => {
+  try {
+    await access(launchFilePath(runDir))
+  } catch {
+    return
+  }
+  await writeFile(path.join(runDir, driverActivityFileName), new Date().toISOString(), 'utf-8')
+}
+
+/** When a driver last worked on the run, or null when none has. */
+export const readDriverActivity = async (runDir: string): Promise<string | null> => {
+  try {
+    return (await readFile(path.join(runDir, driverActivityFileName), 'utf-8')).trim() || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Shallow-merges `patch` into an existing launch.json (creating it when absent).
+ * Keys explicitly set to `undefined` are removed.
+ */
+export const updateLaunchFile = async (
+  filePath: string,
+  patch: Partial<LaunchFileData>,
+): Promise<LaunchFileData> => {
+  const current = (await readLaunchFile(filePath)) ?? {}
+  const next: LaunchFileData = { ...current, ...patch }
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) delete next[key]
+  }
+  await writeLaunchFile(filePath, next)
+  return next
+}
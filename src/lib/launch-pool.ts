@@ -0,0 +1,131 @@
+import { writeFile } from 'node:fs/promises'
+import * as path from 'node:path'
+
+import { claimRunDir, defaultArtifactDir, safePrefix } from './artifacts.js'
+import { findPort, LaunchError, launchElectron } from './launch-electron.js'
+import { poolManifestName } from './launch-file.js'
+import type {
+  LaunchOptions,
+  LaunchPool,
+  LaunchPoolOptions,
+  LaunchResult,
+  PoolManifest,
+} from './types.js'
+
+/**
+ * Picks `count` distinct free ports up front. findPort releases each port before returning, so
+ * back-to-back calls can hand out the same one; duplicates are simply drawn again.
+ */
+const reservePorts = async (count: number, taken: Set<number>): Promise<number[]> => {
+  const ports: number[] = []
+  while (ports.length < count) {
+    const port = await findPort()
+    if (taken.has(port)) continue
+    taken.add(port)
+    ports.push(port)
+  }
+  return ports
+}
+
+const toManifest = (
+  id: string,
+  dir: string,
+  instances: LaunchResult[],
+  createdAt: string,
+): PoolManifest => ({
+  id,
+  dir,
+  createdAt,
+  size: instances.length,
+  instances: instances.map((instance, index) => ({
+    index,
+    wsUrl: instance.wsUrl,
+    pid: instance.pid,
+    electronPid: instance.electronPid ?? null,
+    cdpPort: instance.cdpPort,
+    artifactDir: instance.artifactDir,
+    runLogPath: instance.runLogPath,
+    launchFile: instance.launchFile ?? null,
+    userDataDir: instance.userDataDir ?? null,
+  })),
+})
+
+/**
+ * Starts `size` isolated instances at once: each gets its own CDP port, run dir
+ * (`<pool>/instance-<n>/`) and profile. If any instance fails to start, the others are quit and
+ * the first error is rethrown with `details.index`. The top-level `last-run` link is left alone:
+ * it can name only one run, so callers address instances through the manifest.
+ */
+export const launchPool = async (opts: LaunchPoolOptions): Promise<LaunchPool> => {
+  const { size, instance: perInstance, ...shared } = opts
+  if (!Number.isInteger(size) || size < 1) {
+    throw new LaunchError('E_SPAWN', 'Pool size must be a positive integer', { size })
+  }
+  if (shared.cdpPort !== undefined) {
+    throw new LaunchError('E_SPAWN', 'A pool reserves one CDP port per instance', {
+      cdpPort: shared.cdpPort,
+      hint: 'Drop cdpPort, or set it per instance through `instance`.',
+    })
+  }
+
+  const root = shared.artifactDir ?? defaultArtifactDir
+  const id = shared.artifactPrefix ?? (await claimRunDir(root, `pool-${safePrefix()}`))
+  const dir = path.join(root, id)
+  const createdAt = new Date().toISOString()
+
+  const taken = new Set<number>()
+  const cdpPorts = await reservePorts(size, taken)
+  // A shared numeric `inspect` port would be bound by the first instance only.
+  const inspectPorts = shared.inspect ? await reservePorts(size, taken) : []
+
+  const settled = await Promise.allSettled(
+    Array.from({ length: size }, (_, index) => {
+      const overrides = perInstance?.(index) ?? {}
+      const launchOpts: LaunchOptions = {
+        ...shared,
+        cdpPort: cdpPorts[index],
+        ...(inspectPorts[index] ? { inspect: inspectPorts[index] } : {}),
+        ...overrides,
+        artifactDir: dir,
+        artifactPrefix: `instance-${index}`,
+      }
+      return launchElectron(launchOpts)
+    }),
+  )
+
+  const instances = settled.flatMap((result) =>
+    result.status === 'fulfilled' ? [result.value] : [],
+  )
+  const failedIndex = settled.findIndex((result) => result.status === 'rejected')
+  if (failedIndex !== -1) {
+    await Promise.allSettled(instances.map((instance) => instance.quit()))
+    const failure = settled[failedIndex] as PromiseRejectedResult
+    const error = failure.reason as Error & { details?: Record<string, unknown> }
+    if (error instanceof LaunchError) {
+      error.details = { ...error.details, index: failedIndex, poolDir: dir }
+      throw error
+    }
+    throw new LaunchError('E_SPAWN', `Pool instance ${failedIndex} failed to start`, {
+      error,
+      index: failedIndex,
+      poolDir: dir,
+    })
+  }
+
+  const manifest = toManifest(id, dir, instances, createdAt)
+  const manifestPath = path.join(dir, poolManifestName)
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8')
+
+  return {
+    id,
+    dir,
+    manifestPath,
+    manifest,
+    instances,
+    async quitAll(quitOpts) {
+      const results = await Promise.allSettled(instances.map((instance) => instance.quit(quitOpts)))
+      const failed = results.find((result) => result.status === 'rejected')
+      if (failed) throw (failed as PromiseRejectedResult).reason
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import { ipcLogPrefix } from './ipc-trace.js'
+import { mainRecordPrefix } from './main-records.js'
+import {
+  type ConsoleApiCalledEvent,
+  type ExceptionThrownEvent,
+  NodeInspectorSession,
+} from './node-inspector.js'
+import { consoleLevel, type LogLevel, type RunLogger } from './run-log.js'
+
+/** Console lines the driver turns into `dialog` / `ipc` entries itself. */
+export const isDriverRecord = (text: unknown): boolean =>
+  typeof text === 'string' && (text.startsWith(mainRecordPrefix) || text.startsWith(ipcLogPrefix))
+
+/** The `main` run.log entry for a main-process console call. */
+export const mainConsoleEntry = (
+  event: ConsoleApiCalledEvent,
+): { level: LogLevel; message: string; meta: Record<string, unknown> } => {
+  const firstFrame = event.stackTrace?.callFrames?.[0]
+  return {
+    level: consoleLevel(event.type),
+    message: (event.args ?? []).map((arg) => arg?.value ?? arg?.description ?? '').join(' '),
+    meta: { url: firstFrame?.url || undefined, line: firstFrame?.lineNumber },
+  }
+}
+
+/**
+ * Streams main-process `console.*` calls and uncaught exceptions into run.log from the launcher,
+ * so they don't depend on a driver being attached. V8 replays its console history when a session
+ * enables `Runtime`; those older messages are skipped. The caller closes the session (`quit`
+ * does); until then, or until the app exits, it keeps this process alive.
+ */
+export const tapMainConsole = async (
+  inspectorUrl: string,
+  logger: RunLogger,
+): Promise<NodeInspectorSession | null> => {
+  const session = await NodeInspectorSession.connect(inspectorUrl).catch(() => null)
+  if (!session) return null
+  const attachedAt = Date.now()
+  session.on<ConsoleApiCalledEvent>('Runtime.consoleAPICalled', (event) => {
+    if ((event.timestamp ?? attachedAt) < attachedAt) return
+    if (isDriverRecord(event.args?.[0]?.value)) return
+    const { level, message, meta } = mainConsoleEntry(event)
+    logger.log('main', level, message, meta)
+  })
+  session.on<ExceptionThrownEvent>('Runtime.exceptionThrown', (event) => {
+    if ((event.timestamp ?? attachedAt) < attachedAt) return
+    const details = event.exceptionDetails
+    logger.log('main', 'error', details?.exception?.description ?? details?.text ?? 'exception', {
+      url: details?.url,
+      line: details?.lineNumber,
+    })
+  })
+  await session.send('Runtime.enable', undefined, 5_000).catch(() => {})
+  return session
+}
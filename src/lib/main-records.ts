@@ -0,0 +1,62 @@
+/**
+ * Main-process hooks (dialog stubs, IPC tracing) keep their run.log records in a buffer inside
+ * the app until a driver drains them, so nothing is lost while no driver is attached. Each new
+ * record also prints a console line starting with this prefix, telling attached drivers to
+ * drain right away.
+ */
+export const mainRecordPrefix = '__EAT_RECORD__'
+
+/** Records kept in the main process before the oldest ones are dropped. */
+export const mainRecordLimit = 500
+
+export type MainRecord = {
+  kind: 'dialog' | 'ipc'
+  entry: Record<string, unknown>
+  failed: boolean
+  seq: number
+}
+
+type RecordBuffer = { seq: number; records: MainRecord[]; dropped: number }
+
+/**
+ * Functions below run in the Electron main process. They are sent as source text, so they must
+ * stay self-contained.
+ */
+
+/** Buffers one record and pings attached drivers. */
+export const recordInMain = (
+  { prefix, limit }: { prefix: string; limit: number },
+  kind: MainRecord['kind'],
+  entry: Record<string, unknown>,
+  failed: boolean,
+): void => {
+  const holder = globalThis as { __eatMainRecords__?: RecordBuffer }
+  const buffer = holder.__eatMainRecords__ ?? { seq: 0, records: [], dropped: 0 }
+  holder.__eatMainRecords__ = buffer
+  buffer.seq += 1
+  buffer.records.push({ kind, entry, failed, seq: buffer.seq })
+  if (buffer.records.length > limit) {
+    buffer.dropped += buffer.records.length - limit
+    buffer.records.splice(0, buffer.records.length - limit)
+  }
+  try {
+    console.info(`${prefix} ${buffer.seq}`)
+  } catch {}
+}
+
+/** Hands over every buffered record (and how many overflowed since the last drain). */
+export const drainMainRecordsInMain = (): { records: MainRecord[]; dropped: number } => {
+  const buffer = (globalThis as { __eatMainRecords__?: RecordBuffer }).__eatMainRecords__
+  if (!buffer) return { records: [], dropped: 0 }
+  const drained = { records: buffer.records, dropped: buffer.dropped }
+  buffer.records = []
+  buffer.dropped = 0
+  return drained
+}
+
+/** `recordInMain` bound to its settings, as source text for hook installers. */
+export const mainRecorderSource = (): string =>
+  `((...args) => (${recordInMain.toString()})(${JSON.stringify({
+    prefix: mainRecordPrefix,
+    limit: mainRecordLimit,
+  })}, ...args))`
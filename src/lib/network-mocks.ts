@@ -0,0 +1,74 @@
+import { resolve } from 'node:path'
+import type { Route } from 'playwright'
+
+import type { MockResponse, MockRule } from './types.js'
+
+/** Glob or RegExp a rule is registered under with Playwright's router. */
+export const ruleUrl = (rule: MockRule): string | RegExp => {
+  if (rule.urlRegex !== undefined) return new RegExp(rule.urlRegex, rule.urlRegexFlags)
+  return rule.url ?? '**/*'
+}
+
+/** Short label used in `run.log` so mocked lines can be traced back to their rule. */
+export const describeRule = (rule: MockRule): string =>
+  `${rule.method?.toUpperCase() ?? '*'} ${rule.urlRegex !== undefined ? `/${rule.urlRegex}/` : (rule.url ?? '**/*')}`
+
+const validateRule = (rule: unknown, index: number): MockRule => {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    throw new Error(`Mock rule ${index} must be an object`)
+  }
+  const candidate = rule as MockRule
+  if (candidate.url === undefined && candidate.urlRegex === undefined) {
+    throw new Error(`Mock rule ${index} needs \`url\` or \`urlRegex\``)
+  }
+  if (candidate.urlRegex !== undefined) {
+    try {
+      new RegExp(candidate.urlRegex, candidate.urlRegexFlags)
+    } catch (error) {
+      throw new Error(`Mock rule ${index} has an invalid \`urlRegex\`: ${(error as Error).message}`)
+    }
+  }
+  if (candidate.body !== undefined && candidate.bodyFile !== undefined) {
+    throw new Error(`Mock rule ${index} sets both \`body\` and \`bodyFile\``)
+  }
+  return candidate
+}
+
+/**
+ * Validates mock rules (`[rule, …]` or `{ "mocks": [rule, …] }`); throws a plain Error naming
+ * the offending rule. `bodyFile` paths are resolved against `baseDir` (the mock file's
+ * directory when loaded from disk).
+ */
+export const normalizeMockRules = (rules: unknown, baseDir = process.cwd()): MockRule[] => {
+  const list =
+    rules && typeof rules === 'object' && !Array.isArray(rules)
+      ? (rules as { mocks?: unknown }).mocks
+      : rules
+  if (!Array.isArray(list)) {
+    throw new Error('Mocks must be an array or an object with `mocks: []`')
+  }
+  return list.map((rule, index) => {
+    const valid = validateRule(rule, index)
+    return valid.bodyFile ? { ...valid, bodyFile: resolve(baseDir, valid.bodyFile) } : valid
+  })
+}
+
+/** Answers `route` with a canned response; non-string bodies are sent as JSON. */
+export const fulfillMock = async (route: Route, response: MockResponse): Promise<void> => {
+  const status = response.status ?? 200
+  const headers = response.headers ?? {}
+  if (response.bodyFile) {
+    await route.fulfill({ status, headers, path: response.bodyFile })
+    return
+  }
+  if (response.body === undefined || typeof response.body === 'string') {
+    await route.fulfill({ status, headers, body: response.body ?? '' })
+    return
+  }
+  const hasContentType = Object.keys(headers).some((key) => key.toLowerCase() === 'content-type')
+  await route.fulfill({
+    status,
+    headers: hasContentType ? headers : { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(response.body),
+  })
+}
@@ -0,0 +1,253 @@
+import { writeFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import type { BrowserContext, Request, Response } from 'playwright'
+
+import { ensureArtifactPath } from './artifacts.js'
+import type { NetworkRecording, NetworkRecordOptions } from './types.js'
+
+const defaultMaxBodyBytes = 64 * 1024
+
+type HarHeader = { name: string; value: string }
+
+type HarEntry = {
+  startedDateTime: string
+  time: number
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: HarHeader[]
+    queryString: HarHeader[]
+    cookies: []
+    headersSize: -1
+    bodySize: number
+    postData?: { mimeType: string; text: string; comment?: string }
+  }
+  response: {
+    status: number
+    statusText: string
+    httpVersion: string
+    headers: HarHeader[]
+    cookies: []
+    content: {
+      size: number
+      mimeType: string
+      text?: string
+      encoding?: 'base64'
+      comment?: string
+    }
+    redirectURL: string
+    headersSize: -1
+    bodySize: number
+  }
+  cache: Record<string, never>
+  timings: {
+    blocked: number
+    dns: number
+    connect: number
+    ssl: number
+    send: number
+    wait: number
+    receive: number
+  }
+  pageref?: string
+  _resourceType: string
+  _errorText?: string
+}
+
+const packageVersion = (() => {
+  try {
+    const pkg = createRequire(import.meta.url)('../../package.json') as { version?: string }
+    return pkg.version ?? '0.0.0'
+  } catch {
+    return '0.0.0'
+  }
+})()
+
+const toHeaders = (headers: Record<string, string>): HarHeader[] =>
+  Object.entries(headers).map(([name, value]) => ({ name, value }))
+
+const queryString = (url: string): HarHeader[] => {
+  try {
+    return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }))
+  } catch {
+    return []
+  }
+}
+
+const isTextual = (mimeType: string) =>
+  /^text\/|json|javascript|xml|x-www-form-urlencoded|svg/.test(mimeType)
+
+const span = (start: number, end: number) => (start >= 0 && end >= start ? end - start : -1)
+
+const matches = (url: string, pattern: string | RegExp) =>
+  typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)
+
+/**
+ * Collects renderer traffic from every page of the attached contexts and writes it as a HAR 1.2
+ * file. Playwright's own `recordHar` only works for contexts it creates, which never happens
+ * over `connectOverCDP`, so entries are assembled from request events instead.
+ */
+export class NetworkRecorder {
+  readonly path: string
+  // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Bug in biome
+  #opts: NetworkRecordOptions
+  #maxBodyBytes: number
+  #entries: HarEntry[] = []
+  #pending: Set<Promise<void>> = new Set()
+  #contexts: Set<BrowserContext> = new Set()
+  #startedAt = new Date()
+  #listeners = {
+    requestfinished: (request: Request) => this.#track(request, false),
+    requestfailed: (request: Request) => this.#track(request, true),
+  }
+
+  constructor(path: string, opts: NetworkRecordOptions = {}) {
+    this.path = path
+    this.#opts = opts
+    this.#maxBodyBytes = opts.maxBodyBytes ?? defaultMaxBodyBytes
+  }
+
+  get entryCount(): number {
+    return this.#entries.length
+  }
+
+  attach(context: BrowserContext) {
+    if (this.#contexts.has(context)) return
+    this.#contexts.add(context)
+    context.on('requestfinished', this.#listeners.requestfinished)
+    context.on('requestfailed', this.#listeners.requestfailed)
+  }
+
+  #detachAll() {
+    for (const context of this.#contexts) {
+      context.off('requestfinished', this.#listeners.requestfinished)
+      context.off('requestfailed', this.#listeners.requestfailed)
+    }
+    this.#contexts.clear()
+  }
+
+  #wanted(url: string) {
+    if (url.startsWith('data:') || url.startsWith('devtools:')) return false
+    const { include, exclude } = this.#opts
+    if (include?.length && !include.some((pattern) => matches(url, pattern))) return false
+    if (exclude?.some((pattern) => matches(url, pattern))) return false
+    return true
+  }
+
+  // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Bug in biome
+  #track(request: Request, failed: boolean) {
+    if (!this.#wanted(request.url())) return
+    const job = this.#buildEntry(request, failed)
+      .then((entry) => {
+        this.#entries.push(entry)
+      })
+      .catch(() => {})
+      .finally(() => this.#pending.delete(job))
+    this.#pending.add(job)
+  }
+
+  #capBody(buffer: Buffer, mimeType: string) {
+    const truncated = buffer.length > this.#maxBodyBytes
+    const slice = truncated ? buffer.subarray(0, this.#maxBodyBytes) : buffer
+    const textual = isTextual(mimeType)
+    return {
+      text: textual ? slice.toString('utf-8') : slice.toString('base64'),
+      ...(textual ? {} : { encoding: 'base64' as const }),
+      ...(truncated
+        ? { comment: `truncated to ${this.#maxBodyBytes} of ${buffer.length} bytes` }
+        : {}),
+    }
+  }
+
+  async #buildEntry(request: Request, failed: boolean): Promise<HarEntry> {
+    const timing = request.timing()
+    const response: Response | null = failed ? null : await request.response().catch(() => null)
+    const requestHeaders = await request.allHeaders().catch(() => request.headers())
+    const responseHeaders = response
+      ? await response.allHeaders().catch(() => response.headers())
+      : {}
+    const mimeType = responseHeaders['content-type'] ?? ''
+    const body = response ? await response.body().catch(() => null) : null
+    const postBuffer = request.postDataBuffer()
+    const postData = postBuffer
+      ? (() => {
+          const type = requestHeaders['content-type'] ?? 'application/octet-stream'
+          const capped = this.#capBody(postBuffer, type)
+          return {
+            mimeType: type,
+            text: capped.text,
+            ...(capped.comment ? { comment: capped.comment } : {}),
+          }
+        })()
+      : undefined
+    const sizes = response ? await request.sizes().catch(() => null) : null
+    const wait = span(timing.requestStart, timing.responseStart)
+    const receive = span(timing.responseStart, timing.responseEnd)
+    const started = timing.startTime > 0 ? timing.startTime : Date.now()
+
+    return {
+      startedDateTime: new Date(started).toISOString(),
+      time: timing.responseEnd >= 0 ? timing.responseEnd : 0,
+      request: {
+        method: request.method(),
+        url: request.url(),
+        httpVersion: 'HTTP/1.1',
+        headers: toHeaders(requestHeaders),
+        queryString: queryString(request.url()),
+        cookies: [],
+        headersSize: -1,
+        bodySize: postBuffer?.length ?? 0,
+        ...(postData ? { postData } : {}),
+      },
+      response: {
+        status: response?.status() ?? 0,
+        statusText: response?.statusText() ?? '',
+        httpVersion: 'HTTP/1.1',
+        headers: toHeaders(responseHeaders),
+        cookies: [],
+        content: {
+          size: body?.length ?? sizes?.responseBodySize ?? 0,
+          mimeType,
+          ...(body ? this.#capBody(body, mimeType) : {}),
+        },
+        redirectURL: responseHeaders.location ?? '',
+        headersSize: -1,
+        bodySize: sizes?.responseBodySize ?? body?.length ?? -1,
+      },
+      cache: {},
+      timings: {
+        blocked: -1,
+        dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+        connect: span(timing.connectStart, timing.connectEnd),
+        ssl: span(timing.secureConnectionStart, timing.connectEnd),
+        send: 0,
+        wait: Math.max(wait, 0),
+        receive: Math.max(receive, 0),
+      },
+      _resourceType: request.resourceType(),
+      ...(failed ? { _errorText: request.failure()?.errorText ?? 'failed' } : {}),
+    }
+  }
+
+  /** Stops listening, waits for in-flight bodies and writes the HAR file. */
+  async stop(): Promise<NetworkRecording> {
+    this.#detachAll()
+    await Promise.allSettled([...this.#pending])
+    const entries = [...this.#entries].sort((a, b) =>
+      a.startedDateTime.localeCompare(b.startedDateTime),
+    )
+    const har = {
+      log: {
+        version: '1.2',
+        creator: { name: 'electron-agent-tools', version: packageVersion },
+        pages: [],
+        entries,
+        comment: `recorded from ${this.#startedAt.toISOString()}`,
+      },
+    }
+    await ensureArtifactPath(this.path)
+    await writeFile(this.path, JSON.stringify(har, null, 2), 'utf-8')
+    return { path: this.path, entries: entries.length }
+  }
+}
@@ -0,0 +1,135 @@
+import { EventEmitter } from 'node:events'
+import WebSocket from 'ws'
+
+export type RemoteObject = { value?: unknown; description?: string }
+
+export type ConsoleApiCalledEvent = {
+  type?: string
+  args?: RemoteObject[]
+  timestamp?: number
+  stackTrace?: { callFrames?: { url?: string; lineNumber?: number }[] }
+}
+
+export type ExceptionThrownEvent = {
+  timestamp?: number
+  exceptionDetails?: {
+    text?: string
+    url?: string
+    lineNumber?: number
+    exception?: RemoteObject
+  }
+}
+
+type Pending = {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/** A paused (debugger statement) or busy main process never answers; don't wait forever. */
+const defaultSendTimeoutMs = 30_000
+
+/**
+ * Minimal CDP client for a single inspector endpoint: the Electron main process or a webview
+ * guest. Playwright doesn't expose either target, so each needs its own socket.
+ */
+export class NodeInspectorSession {
+  #socket: WebSocket
+  // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Bug in biome
+  #nextId = 1
+  #pending: Map<number, Pending> = new Map()
+  #emitter = new EventEmitter()
+
+  private constructor(socket: WebSocket) {
+    this.#socket = socket
+    socket.on('message', (raw) => this.#onMessage(raw.toString()))
+    socket.on('close', () => {
+      for (const pending of this.#pending.values()) {
+        clearTimeout(pending.timer)
+        pending.reject(new Error('Inspector connection closed'))
+      }
+      this.#pending.clear()
+      this.#emitter.emit('close')
+    })
+  }
+
+  static async connect(url: string, timeoutMs = 5_000): Promise<NodeInspectorSession> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url, { handshakeTimeout: timeoutMs, perMessageDeflate: false })
+      socket.once('open', () => resolve(new NodeInspectorSession(socket)))
+      socket.once('error', reject)
+    })
+  }
+
+  get connected(): boolean {
+    return this.#socket.readyState === WebSocket.OPEN
+  }
+
+  // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Bug in biome
+  #onMessage(raw: string) {
+    let message: {
+      id?: number
+      method?: string
+      params?: unknown
+      result?: unknown
+      error?: { message?: string }
+    }
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      return
+    }
+    if (typeof message.id === 'number') {
+      const pending = this.#pending.get(message.id)
+      if (!pending) return
+      this.#pending.delete(message.id)
+      clearTimeout(pending.timer)
+      if (message.error) pending.reject(new Error(message.error.message ?? 'Inspector error'))
+      else pending.resolve(message.result)
+      return
+    }
+    if (message.method) this.#emitter.emit(message.method, message.params)
+  }
+
+  /** Rejects with `code: 'E_WAIT_TIMEOUT'` when no reply arrives within `timeoutMs`. */
+  send<T = unknown>(
+    method: string,
+    params?: Record<string, unknown>,
+    timeoutMs = defaultSendTimeoutMs,
+  ): Promise<T> {
+    if (!this.connected) return Promise.reject(new Error('Inspector connection closed'))
+    const id = this.#nextId++
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#pending.delete(id)
+        reject(
+          Object.assign(new Error(`Inspector did not answer ${method} within ${timeoutMs}ms`), {
+            code: 'E_WAIT_TIMEOUT',
+          }),
+        )
+      }, timeoutMs)
+      this.#pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer })
+      this.#socket.send(JSON.stringify({ id, method, params: params ?? {} }), (error) => {
+        if (!error) return
+        this.#pending.delete(id)
+        clearTimeout(timer)
+        reject(error)
+      })
+    })
+  }
+
+  on<T = Record<string, unknown>>(event: string, cb: (params: T) => void): () => void {
+    const listener = cb as (params: unknown) => void
+    this.#emitter.on(event, listener)
+    return () => this.#emitter.off(event, listener)
+  }
+
+  async close(): Promise<void> {
+    if (this.#socket.readyState === WebSocket.CLOSED) return
+    await new Promise<void>((resolve) => {
+      this.#socket.once('close', () => resolve())
+      this.#socket.close()
+      setTimeout(resolve, 500).unref()
+    })
+  }
+}
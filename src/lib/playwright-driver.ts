@@ -1,19 +1,105 @@
 import { EventEmitter } from 'node:events'
-import { mkdir } from 'node:fs/promises'
-import { basename, dirname, join } from 'node:path'
+import { mkdir, readFile } from 'node:fs/promises'
+import { basename, dirname, join, resolve } from 'node:path'
 import type { CDPSession } from 'playwright'
 import {
   type Browser,
+  type BrowserContext,
   chromium,
+  type Frame,
+  type FrameLocator,
   type Locator,
   type Page,
   type Request,
   type Response,
+  type Route,
 } from 'playwright'
+import { clickMenuInMain, readMenuInMain, trackContextMenusInMain } from './app-menu.js'
+import {
+  type AriaMatchKey,
+  attachSelectors,
+  keySelector,
+  parseAriaSnapshot,
+} from './aria-snapshot.js'
 import { defaultArtifactDir } from './artifacts.js'
+import {
+  installDialogStubsInMain,
+  readDialogStubsInMain,
+  removeDialogStubsInMain,
+} from './dialog-stubs.js'
+import { scanSelectorsInPage, serializeDomInPage } from './dom-scan.js'
+import { observeInPage, refAttribute, refCss } from './element-refs.js'
 import type { AppErrorCode } from './error-codes.js'
-import { type LogLevel, type LogSource, openRunLogger, type RunLogger } from './run-log.js'
-import type { ConnectOptions, ConsoleSource, Driver, Selector, SnapshotPerWorld } from './types.js'
+import { type AssertionOutcome, SelectorExpectation } from './expect.js'
+import { captureFailureBundle } from './failure-bundle.js'
+import {
+  clearIpcStubsInMain,
+  defaultRedactKeys,
+  type IpcTraceEntry,
+  installMainIpcHooksInMain,
+  ipcIdChannel,
+  ipcLogPrefix,
+  minIpcHookElectron,
+  type PayloadLimits,
+  setIpcStubInMain,
+  summarizePayload,
+} from './ipc-trace.js'
+import { launchFileName, readLaunchFile } from './launch-file.js'
+import { mainConsoleEntry } from './main-console.js'
+import {
+  drainMainRecordsInMain,
+  type MainRecord,
+  mainRecorderSource,
+  mainRecordPrefix,
+} from './main-records.js'
+import { describeRule, fulfillMock, normalizeMockRules, ruleUrl } from './network-mocks.js'
+import { NetworkRecorder } from './network-recorder.js'
+import {
+  type ConsoleApiCalledEvent,
+  type ExceptionThrownEvent,
+  NodeInspectorSession,
+} from './node-inspector.js'
+import {
+  consoleLevel,
+  type LogLevel,
+  type LogSource,
+  openRunLogger,
+  type RunLogger,
+} from './run-log.js'
+import { ScreencastRecorder } from './screencast.js'
+import type {
+  AriaNode,
+  ConnectOptions,
+  ConsoleSource,
+  DialogCall,
+  DialogResponse,
+  DomScanOptions,
+  DragOptions,
+  Driver,
+  DriverMouse,
+  Expectation,
+  FrameTarget,
+  IpcStubResponse,
+  IpcTraceOptions,
+  MainIpcHooks,
+  MenuItemInfo,
+  MockResponse,
+  MockRule,
+  NetworkRecording,
+  NetworkRecordOptions,
+  ObservedElement,
+  PointerOptions,
+  RouteHandler,
+  ScreencastOptions,
+  ScreencastResult,
+  Selector,
+  SelectorList,
+  SnapshotPerWorld,
+  TextMatch,
+  TraceOptions,
+  WebviewInfo,
+} from './types.js'
+import { listWebviewTargets, unsupportedWebviewFields, WebviewTarget } from './webview.js'
 
 export class AppError extends Error {
   code: AppErrorCode
@@ -51,14 +137,6 @@ const classifyWorld = (auxData: Record<string, unknown> | undefined): ConsoleSou
   return 'unknown'
 }
 
-const mapConsoleLevel = (type: string | undefined): LogLevel => {
-  if (type === 'warning') return 'warn'
-  if (type === 'error') return 'error'
-  if (type === 'debug') return 'debug'
-  if (type === 'info') return 'info'
-  return 'log'
-}
-
 type ContextInfo = { id: number; world: ConsoleSource; frameId?: string | undefined }
 
 const serializeGlobals = (globals: Record<string, unknown>) => {
@@ -89,25 +167,39 @@ const applyGlobalsSource = `function apply(globals) {
   } catch {}
 }`
 
-const installIpcTracerSource = `function installTracer() {
+// Runs in each preload context. With `correlate` (main tracing on) every outgoing message is
+// announced on the id channel first, so the main-side entry carries the same id.
+const installIpcTracerSource = `function installTracer(correlate) {
   try {
+    if (correlate) globalThis.__eatIpcCorrelate__ = true;
     if (globalThis.__eatIpcTraceInstalled__) return true;
     const ipcRenderer = (globalThis && globalThis.ipcRenderer) || (typeof require === 'function' ? require('electron').ipcRenderer : undefined);
     if (!ipcRenderer) return false;
+    const idChannel = '${ipcIdChannel}';
     const now = () => Date.now();
     const emit = (entry) => {
-      try { console.info('__EAT_IPC__ ' + JSON.stringify({ ...entry, ts: now() })); } catch {}
+      try { console.info('${ipcLogPrefix} ' + JSON.stringify({ side: 'renderer', ...entry, ts: now() })); } catch {}
     };
 
     const origSend = ipcRenderer.send.bind(ipcRenderer);
+    const prefix = 'r' + Math.random().toString(36).slice(2, 8) + '-';
+    let seq = 0;
+    const nextId = () => {
+      seq += 1;
+      const id = prefix + seq;
+      if (globalThis.__eatIpcCorrelate__) { try { origSend(idChannel, id); } catch {} }
+      return id;
+    };
+
     ipcRenderer.send = (channel, ...args) => {
+      const id = nextId();
       const start = now();
       try {
         const result = origSend(channel, ...args);
-        emit({ direction: 'renderer->main', kind: 'send', channel, payload: args, durationMs: now() - start });
+        emit({ direction: 'renderer->main', kind: 'send', channel, id, payload: args, durationMs: now() - start });
         return result;
       } catch (error) {
-        emit({ direction: 'renderer->main', kind: 'send', channel, payload: args, durationMs: now() - start, error: error?.message ?? String(error) });
+        emit({ direction: 'renderer->main', kind: 'send', channel, id, payload: args, durationMs: now() - start, error: error?.message ?? String(error) });
         throw error;
       }
     };
@@ -115,22 +207,27 @@ const installIpcTracerSource = `function installTracer() {
     const origInvoke = ipcRenderer.invoke?.bind(ipcRenderer);
     if (origInvoke) {
       ipcRenderer.invoke = async (channel, ...args) => {
+        const id = nextId();
         const start = now();
         try {
           const result = await origInvoke(channel, ...args);
-          emit({ direction: 'renderer->main', kind: 'invoke', channel, payload: args, durationMs: now() - start, result });
+          emit({ direction: 'renderer->main', kind: 'invoke', channel, id, payload: args, durationMs: now() - start, result });
           return result;
         } catch (error) {
-          emit({ direction: 'renderer->main', kind: 'invoke', channel, payload: args, durationMs: now() - start, error: error?.message ?? String(error) });
+          emit({ direction: 'renderer->main', kind: 'invoke', channel, id, payload: args, durationMs: now() - start, error: error?.message ?? String(error) });
           throw error;
         }
       };
     }
 
+    // The main process announces the id of its next webContents.send the same way.
     const origOn = ipcRenderer.on.bind(ipcRenderer);
+    let announced;
+    origOn(idChannel, (_event, next) => { announced = next; });
     ipcRenderer.on = (channel, listener) => {
       const wrapped = (_event, ...args) => {
-        emit({ direction: 'main->renderer', kind: 'event', channel, payload: args });
+        const id = announced?.channel === channel ? announced.id : undefined;
+        emit({ direction: 'main->renderer', kind: 'event', channel, id, payload: args });
         return listener(_event, ...args);
       };
       return origOn(channel, wrapped);
@@ -139,11 +236,30 @@ const installIpcTracerSource = `function installTracer() {
     globalThis.__eatIpcTraceInstalled__ = true;
     return true;
   } catch (error) {
-    try { console.error('__EAT_IPC__ ' + JSON.stringify({ error: error?.message ?? String(error) })); } catch {}
+    try { console.error('${ipcLogPrefix} ' + JSON.stringify({ error: error?.message ?? String(error) })); } catch {}
     return false;
   }
 }`
 
+// CLI runs only know the run dir; pick up the main-process inspector launchElectron recorded there.
+// Also reports whether the launcher is still streaming main console itself, so lines aren't doubled.
+const recordedMainProcess = async (
+  runLogPath: string,
+  wsUrl: string,
+): Promise<{ inspectorUrl?: string | undefined; consoleTapped: boolean }> => {
+  const launch = await readLaunchFile(join(dirname(runLogPath), launchFileName))
+  if (launch?.wsUrl !== wsUrl) return { consoleTapped: false }
+  const tapPid = launch.mainConsoleTap?.pid
+  let consoleTapped = false
+  if (typeof tapPid === 'number') {
+    try {
+      process.kill(tapPid, 0)
+      consoleTapped = true
+    } catch {}
+  }
+  return { inspectorUrl: launch.inspectorUrl, consoleTapped }
+}
+
 const scorePage = async (
   page: Page,
   pick?: ConnectOptions['pick'],
@@ -169,31 +285,205 @@ const scorePage = async (
   return { score, title, url }
 }
 
-export const buildLocator = (page: Page, sel: Selector): Locator => {
-  let locator: Locator | null = null
-  if (sel.testid) {
-    locator = page.getByTestId(sel.testid)
-  } else if (sel.role) {
+const toMatcher = (value: TextMatch, field: string): string | RegExp => {
+  if (typeof value === 'string' || value instanceof RegExp) return value
+  try {
+    return new RegExp(value.regex, value.flags)
+  } catch (error) {
+    throw new AppError('E_SELECTOR', `Invalid regex in selector field \`${field}\``, {
+      error,
+      regex: value.regex,
+    })
+  }
+}
+
+/**
+ * Where locators are built: `root` for the selector itself, `base` for `has` filters, which
+ * Playwright requires to come from the same frame as the locator they filter.
+ */
+type LocatorScope = { root: Page | Frame | FrameLocator | Locator; base: Page | Frame }
+
+const findFrame = (page: Page, target: FrameTarget): Frame | null =>
+  page
+    .frames()
+    .find(
+      (frame) =>
+        frame !== page.mainFrame() &&
+        (target.name === undefined || frame.name() === target.name) &&
+        (target.url === undefined || frame.url().includes(target.url)),
+    ) ?? null
+
+const frameScope = (page: Page, target: FrameTarget | undefined): LocatorScope => {
+  if (!target) return { root: page, base: page }
+  if (target.webview) {
+    throw new AppError('E_SELECTOR', 'Webview selectors cannot be turned into locators', {
+      frame: target,
+      reason: 'webview',
+    })
+  }
+  if (target.selector) return { root: page.frameLocator(target.selector), base: page }
+  const frame = findFrame(page, target)
+  if (!frame) {
+    throw new AppError('E_SELECTOR', 'No frame matches the selector', {
+      frame: target,
+      frames: page.frames().map((f) => ({ name: f.name(), url: f.url() })),
+      reason: 'no-frame',
+    })
+  }
+  return { root: frame, base: frame }
+}
+
+/** All locator fields of `sel` combined with AND, plus `within` / `has` / `hasText`; no `nth`. */
+const combineLocator = (scope: LocatorScope, sel: Selector, path: string): Locator => {
+  const root = sel.within ? scopedLocator(scope, sel.within, `${path}within.`) : scope.root
+  const exact = sel.exact !== undefined ? { exact: sel.exact } : {}
+  const parts: Locator[] = []
+  if (sel.ref) parts.push(root.locator(refCss(sel.ref)))
+  if (sel.testid) parts.push(root.getByTestId(sel.testid))
+  if (sel.role) {
+    const roleExact = sel.role.exact ?? sel.exact
     const roleOptions =
-      sel.role.name !== undefined ? { name: sel.role.name as string | RegExp } : {}
-    locator = page.getByRole(sel.role.role as never, roleOptions)
-  } else if (sel.text) {
-    locator = page.getByText(sel.text, { exact: false })
-  } else if (sel.css) {
-    locator = page.locator(sel.css)
+      sel.role.name !== undefined
+        ? {
+            name: toMatcher(sel.role.name, `${path}role.name`),
+            ...(roleExact !== undefined ? { exact: roleExact } : {}),
+          }
+        : {}
+    parts.push(root.getByRole(sel.role.role as never, roleOptions))
+  }
+  if (sel.text) parts.push(root.getByText(toMatcher(sel.text, `${path}text`), exact))
+  if (sel.label) parts.push(root.getByLabel(toMatcher(sel.label, `${path}label`), exact))
+  if (sel.placeholder) {
+    parts.push(root.getByPlaceholder(toMatcher(sel.placeholder, `${path}placeholder`), exact))
+  }
+  if (sel.altText) parts.push(root.getByAltText(toMatcher(sel.altText, `${path}altText`), exact))
+  if (sel.title) parts.push(root.getByTitle(toMatcher(sel.title, `${path}title`), exact))
+  if (sel.css) parts.push(root.locator(sel.css))
+  if (sel.xpath) parts.push(root.locator(`xpath=${sel.xpath}`))
+
+  const [first, ...rest] = parts
+  if (!first) {
+    throw new AppError(
+      'E_SELECTOR',
+      path ? `No selector provided in \`${path.slice(0, -1)}\`` : 'No selector provided',
+    )
+  }
+  let locator = rest.reduce((all, part) => all.and(part), first)
+  if (sel.has) {
+    const base = { root: scope.base, base: scope.base }
+    locator = locator.filter({ has: scopedLocator(base, sel.has, `${path}has.`) })
+  }
+  if (sel.hasText) {
+    locator = locator.filter({ hasText: toMatcher(sel.hasText, `${path}hasText`) })
+  }
+  return locator
+}
+
+/** Nested selectors (`within`, `has`) only narrow to one match when they set `nth` themselves. */
+const scopedLocator = (scope: LocatorScope, sel: Selector, path: string): Locator => {
+  const locator = combineLocator(scope, sel, path)
+  return sel.nth !== undefined ? locator.nth(sel.nth) : locator
+}
+
+/** Throws `E_SELECTOR` for webview frames; the driver resolves those itself. */
+export const buildLocator = (page: Page, sel: Selector): Locator => {
+  const locator = combineLocator(frameScope(page, sel.frame), sel, '')
+  if (sel.nth !== undefined) return locator.nth(sel.nth)
+  // Playwright locators are strict already: acting on several matches throws.
+  return sel.strict ? locator : locator.first()
+}
+
+/**
+ * `buildLocator` plus up-front checks, so a stale `{ ref }` or a `strict` selector that already
+ * matches several elements fails right away with `E_SELECTOR` instead of waiting out the action
+ * timeout. Frames picked by `name` / `url` get until the selector's timeout to attach.
+ */
+export const resolveLocator = async (page: Page, sel: Selector): Promise<Locator> => {
+  const target = sel.frame
+  if (target && !target.selector && !target.webview) {
+    const deadline = Date.now() + (sel.timeoutMs ?? 10_000)
+    while (!findFrame(page, target) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100))
+    }
+  }
+  const locator = buildLocator(page, sel)
+  if (sel.ref && (await frameScope(page, target).root.locator(refCss(sel.ref)).count()) === 0) {
+    throw new AppError('E_SELECTOR', `Element ref ${sel.ref} is stale or unknown`, {
+      ref: sel.ref,
+      reason: 'stale-ref',
+      hint: 'The node was removed, the page reloaded, or the ref is from another window; call observe() again.',
+    })
+  }
+  if (sel.strict && sel.nth === undefined) {
+    const count = await locator.count()
+    if (count > 1) {
+      throw new AppError('E_SELECTOR', `Strict selector matched ${count} elements`, {
+        count,
+        reason: 'strict',
+        hint: 'Add fields, `within`, `has` or `hasText` to narrow it down, or pick one with `nth`.',
+      })
+    }
   }
+  return locator
+}
+
+const mouseButtonOpts = (opts: Parameters<DriverMouse['down']>[0] & {}) => ({
+  ...(opts.button ? { button: opts.button } : {}),
+  ...(opts.clickCount !== undefined ? { clickCount: opts.clickCount } : {}),
+})
+
+const timeoutOpts = (sel: Selector) =>
+  sel.timeoutMs !== undefined ? { timeout: sel.timeoutMs } : undefined
+
+const visibleBox = async (locator: Locator, sel: Selector) => {
+  await locator.scrollIntoViewIfNeeded(timeoutOpts(sel))
+  const box = await locator.boundingBox(timeoutOpts(sel))
+  if (!box) throw new Error('Element is not visible')
+  return box
+}
 
-  if (!locator) {
-    throw new AppError('E_SELECTOR', 'No selector provided')
+/** First webview guest whose url contains `pick.url` (any guest without one). */
+const matchWebview = (webviews: WebviewInfo[], pick: { url?: string | undefined }) =>
+  webviews.find((webview) => pick.url === undefined || webview.url.includes(pick.url))
+
+/** Throws `E_SELECTOR` (`reason: 'webview'`) for actions that only work on the host page. */
+const rejectWebview = (action: string, frame: FrameTarget): never => {
+  throw new AppError('E_SELECTOR', `${action} is not supported inside webviews`, {
+    frame,
+    reason: 'webview',
+  })
+}
+
+/** Webview guests get plain clicks at the element's center. */
+const rejectWebviewPointer = (action: string, sel: PointerOptions) => {
+  const unsupported = (['modifiers', 'position'] as const).filter((key) => sel[key] !== undefined)
+  if (unsupported.length) {
+    throw new AppError(
+      'E_SELECTOR',
+      `${action} does not support ${unsupported.join(', ')} inside webviews`,
+      {
+        unsupported,
+        reason: 'webview',
+      },
+    )
   }
+}
 
-  return locator.nth(sel.nth ?? 0)
+/** Playwright click options from a `dblclick` / `rightClick` payload. */
+const clickOpts = (sel: Selector & PointerOptions) => {
+  const opts: Parameters<Locator['click']>[0] & {} = {}
+  if (sel.button) opts.button = sel.button
+  if (sel.modifiers?.length) opts.modifiers = sel.modifiers
+  if (sel.position) opts.position = sel.position
+  if (sel.timeoutMs !== undefined) opts.timeout = sel.timeoutMs
+  return opts
 }
 
 export class PlaywrightDriver implements Driver {
   #browser: Browser
   #page: Page
   #browserSession: CDPSession | null = null
+  #mainSession: NodeInspectorSession | null = null
   #pageSessions: Map<Page, { session: CDPSession; contexts: Map<number, ContextInfo> }> = new Map()
   #emitter = new EventEmitter()
   #injectors: Array<{
@@ -227,6 +517,35 @@ export class PlaywrightDriver implements Driver {
   }
 
   #wsUrl: string
+  #runDir: string = join(defaultArtifactDir, 'last-run')
+  #recorder: NetworkRecorder | null = null
+  #routes: Array<{ url: string | RegExp; handler: (route: Route) => Promise<void> }> = []
+  #routedContexts: Set<BrowserContext> = new Set()
+  #trace: { context: BrowserContext; path: string } | null = null
+  #screencast: ScreencastRecorder | null = null
+  #webviews: Map<string, WebviewTarget> = new Map()
+  #failureBundles = false
+  #ipcLimits: PayloadLimits = { maxChars: 1024, redact: defaultRedactKeys }
+  #ipcCorrelate = false
+  #menusTracked = false
+  #draining: Promise<void> | null = null
+  #drainAgain = false
+
+  readonly mouse: DriverMouse = {
+    move: (x, y, opts = {}) => this.#mouseMove(x, y, opts),
+    down: async (opts = {}) => {
+      this.#mark('mouse-down', opts)
+      await this.#pointer('Failed to press the mouse button', opts, () =>
+        this.#page.mouse.down(mouseButtonOpts(opts)),
+      )
+    },
+    up: async (opts = {}) => {
+      this.#mark('mouse-up', opts)
+      await this.#pointer('Failed to release the mouse button', opts, () =>
+        this.#page.mouse.up(mouseButtonOpts(opts)),
+      )
+    },
+  }
 
   constructor(browser: Browser, page: Page, wsUrl: string, logger: RunLogger | null) {
     this.#browser = browser
@@ -240,10 +559,11 @@ export class PlaywrightDriver implements Driver {
   }
 
   // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Bug in biome
-  async #init() {
+  async #init(main: { inspectorUrl?: string | undefined; consoleTapped: boolean }) {
     this.#wireEvents(this.#page)
     await this.#wirePageSession(this.#page)
     await this.#wireBrowserSession()
+    if (main.inspectorUrl) await this.#wireMainSession(main.inspectorUrl, main.consoleTapped)
   }
 
   #wireEvents(page: Page) {
@@ -261,6 +581,8 @@ export class PlaywrightDriver implements Driver {
 
   async #wirePageSession(page: Page) {
     if (this.#pageSessions.has(page)) return
+    this.#recorder?.attach(page.context())
+    await this.#applyRoutes(page.context())
     const session = await page.context().newCDPSession(page)
     const contexts: Map<number, ContextInfo> = new Map()
 
@@ -316,35 +638,14 @@ export class PlaywrightDriver implements Driver {
           }
         : undefined
       const raw = text.toString()
-      const ipcPrefix = '__EAT_IPC__'
-      if (raw.startsWith(ipcPrefix)) {
-        const payload = raw.slice(ipcPrefix.length).trimStart()
-        try {
-          const parsed = JSON.parse(payload) as {
-            direction?: string
-            kind?: string
-            channel?: string
-            durationMs?: number
-            error?: string
-            result?: unknown
-            payload?: unknown
-          }
-          this.#log('ipc', parsed.error ? 'error' : 'info', 'ipc-trace', {
-            direction: parsed.direction,
-            kind: parsed.kind,
-            channel: parsed.channel,
-            durationMs: parsed.durationMs,
-            error: parsed.error,
-          })
-        } catch {
-          this.#log('ipc', 'info', raw)
-        }
+      if (raw.startsWith(ipcLogPrefix)) {
+        this.#logIpcLine(raw.slice(ipcLogPrefix.length))
         return
       }
       if (location?.url?.includes('electron/js2c/renderer_init')) {
         source = 'preload'
       }
-      this.#log(source as LogSource, mapConsoleLevel(event.type), raw, {
+      this.#log(source as LogSource, consoleLevel(event.type), raw, {
         url: location?.url,
         line: location?.lineNumber,
         column: location?.columnNumber,
@@ -367,7 +668,7 @@ export class PlaywrightDriver implements Driver {
       const source = classifyWorld(
         event?.entry?.source === 'worker' ? { type: 'worker' } : { type: 'renderer' },
       )
-      this.#log(source as LogSource, mapConsoleLevel(event.entry.level), event.entry.text, {
+      this.#log(source as LogSource, consoleLevel(event.entry.level), event.entry.text, {
         url: location?.url,
         line: location?.lineNumber,
         column: location?.columnNumber,
@@ -430,6 +731,7 @@ export class PlaywrightDriver implements Driver {
       .send('Runtime.callFunctionOn', {
         executionContextId: contextId,
         functionDeclaration: installIpcTracerSource,
+        arguments: [{ value: this.#ipcCorrelate }],
         returnByValue: true,
       })
       .catch(() => {})
@@ -440,6 +742,9 @@ export class PlaywrightDriver implements Driver {
     fn: ((...args: unknown[]) => T) | string,
     arg?: unknown,
   ): Promise<T> {
+    if (world === 'main' && this.#mainSession?.connected) {
+      return (await this.#evalInMain(fn, arg)) as T
+    }
     if (world === 'main') {
       if (!this.#browserSession) throw new AppError('E_INTERNAL', 'No main process session')
       const expression =
@@ -507,7 +812,7 @@ export class PlaywrightDriver implements Driver {
     this.#browserSession.on('Runtime.consoleAPICalled', (event) => {
       this.#log(
         'main',
-        mapConsoleLevel(event?.type),
+        consoleLevel(event?.type),
         (event?.args ?? []).map((arg) => arg?.value ?? arg?.description ?? '').join(' '),
         { ts: Math.round((event?.timestamp ?? Date.now() / 1000) * 1000) },
       )
@@ -526,7 +831,7 @@ export class PlaywrightDriver implements Driver {
               : {}),
           }
         : undefined
-      this.#log('main', mapConsoleLevel(event.entry.level), event.entry.text, {
+      this.#log('main', consoleLevel(event.entry.level), event.entry.text, {
         ts: Math.round(event.entry.timestamp * 1000),
         url: location?.url,
         line: location?.lineNumber,
@@ -538,6 +843,163 @@ export class PlaywrightDriver implements Driver {
     await this.#browserSession.send('Log.enable').catch(() => {})
   }
 
+  /** `consoleTapped`: the launcher logs plain main console already (see `tapMainConsole`). */
+  async #wireMainSession(inspectorUrl: string, consoleTapped: boolean) {
+    try {
+      this.#mainSession = await NodeInspectorSession.connect(inspectorUrl)
+    } catch (error) {
+      this.#log('system', 'warn', 'main-inspector-unavailable', {
+        inspectorUrl,
+        error: (error as Error).message,
+      })
+      return
+    }
+
+    // `Runtime.enable` replays V8's console history; only log what happens from now on.
+    const attachedAt = Date.now()
+    this.#mainSession.on<ConsoleApiCalledEvent>('Runtime.consoleAPICalled', (event) => {
+      if ((event.timestamp ?? attachedAt) < attachedAt) return
+      const first = event.args?.[0]?.value
+      if (typeof first === 'string' && first.startsWith(mainRecordPrefix)) {
+        this.#drainMainRecords()
+        return
+      }
+      if (consoleTapped) return
+      const { level, message, meta } = mainConsoleEntry(event)
+      this.#log('main', level, message, meta)
+    })
+    this.#mainSession.on<ExceptionThrownEvent>('Runtime.exceptionThrown', (event) => {
+      if (consoleTapped || (event.timestamp ?? attachedAt) < attachedAt) return
+      const details = event.exceptionDetails
+      this.#log('main', 'error', details?.exception?.description ?? details?.text ?? 'exception', {
+        url: details?.url,
+        line: details?.lineNumber,
+      })
+    })
+    await this.#mainSession.send('Runtime.enable').catch(() => {})
+    this.#log('system', 'info', 'main-inspector-attached', { inspectorUrl })
+    // Pick up whatever the hooks recorded while no driver was attached.
+    await this.#drainMainRecords()
+  }
+
+  /**
+   * Moves the records main-process hooks buffered (see `recordInMain`) into run.log. Whoever
+   * drains first logs a record, so concurrent drivers don't log it twice. Never rejects.
+   */
+  #drainMainRecords(): Promise<void> {
+    if (this.#draining) {
+      this.#drainAgain = true
+      return this.#draining
+    }
+    this.#draining = (async () => {
+      do {
+        this.#drainAgain = false
+        const { records, dropped } = (await this.#evalInMain(drainMainRecordsInMain)) as {
+          records: MainRecord[]
+          dropped: number
+        }
+        if (dropped > 0) {
+          this.#log('system', 'warn', 'main-records-dropped', {
+            dropped,
+            hint: 'The main process keeps a limited number of records while no driver drains them.',
+          })
+        }
+        for (const record of records) {
+          if (record.kind === 'dialog') this.#logDialogCall(record.entry as DialogCall)
+          else this.#logIpcEntry(record.entry as IpcTraceEntry)
+        }
+      } while (this.#drainAgain)
+    })()
+      .catch((error) => {
+        this.#log('system', 'warn', 'main-records-unavailable', {
+          error: (error as Error).message,
+        })
+      })
+      .finally(() => {
+        this.#draining = null
+      })
+    return this.#draining
+  }
+
+  /** Renderer-side trace lines; see `installIpcTracer`. */
+  #logIpcLine(raw: string) {
+    try {
+      this.#logIpcEntry(JSON.parse(raw) as IpcTraceEntry)
+    } catch {
+      this.#log('ipc', 'info', raw.trim())
+    }
+  }
+
+  #logIpcEntry(entry: IpcTraceEntry) {
+    // Main-side entries arrive summarized already; renderer ones carry the raw values.
+    const summarize = (value: unknown) =>
+      entry.side === 'main' ? value : summarizePayload(value, this.#ipcLimits)
+    this.#log('ipc', entry.error ? 'error' : 'info', 'ipc-trace', {
+      side: entry.side,
+      direction: entry.direction,
+      kind: entry.kind,
+      channel: entry.channel,
+      id: entry.id,
+      durationMs: entry.durationMs,
+      payload: summarize(entry.payload),
+      result: summarize(entry.result),
+      error: entry.error,
+      stubbed: entry.stubbed,
+    })
+  }
+
+  #logDialogCall(call: DialogCall) {
+    const meta = { method: call.method, options: call.options, result: call.result }
+    if (call.unexpected) {
+      this.#log('dialog', 'error', 'dialog-unexpected', {
+        ...meta,
+        hint: 'Queue a response with stubDialogs() before the app opens this dialog.',
+      })
+    } else {
+      this.#log('dialog', 'info', 'dialog-stubbed', meta)
+    }
+  }
+
+  async #evalInMain(fn: ((...args: never[]) => unknown) | string, arg?: unknown) {
+    const session = this.#mainSession
+    if (!session?.connected) {
+      throw new AppError(
+        'E_INTERNAL',
+        'Main process inspector not available (launch with inspect: true)',
+      )
+    }
+    const expression =
+      typeof fn === 'function'
+        ? `(${fn.toString()})(${arg === undefined ? '' : JSON.stringify(arg)})`
+        : String(fn)
+    const { result, exceptionDetails } = await session
+      .send<{
+        result?: { value?: unknown }
+        exceptionDetails?: { text?: string; exception?: { description?: string } }
+      }>('Runtime.evaluate', {
+        expression,
+        returnByValue: true,
+        awaitPromise: true,
+        // Exposes Node's `require` to the evaluated code, which the ESM main module lacks.
+        includeCommandLineAPI: true,
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'E_WAIT_TIMEOUT') throw error
+        throw new AppError('E_WAIT_TIMEOUT', 'Main process did not answer', {
+          error: error.message,
+          hint: 'The main process may be paused in a debugger or stuck in a busy loop.',
+        })
+      })
+    if (exceptionDetails) {
+      throw new AppError(
+        'E_INTERNAL',
+        exceptionDetails.exception?.description ?? exceptionDetails.text ?? 'Evaluation failed',
+        { exceptionDetails },
+      )
+    }
+    return result?.value
+  }
+
   #setPage(page: Page) {
     this.#unwireEvents(this.#page)
     this.#page = page
@@ -545,6 +1007,22 @@ export class PlaywrightDriver implements Driver {
     this.#wireEvents(page)
     // ensure CDP session exists
     this.#wirePageSession(page).catch(() => {})
+    this.#screencast?.follow(page).catch((error: Error) => {
+      this.#log('system', 'warn', 'screencast-follow-failed', { error: error.message })
+    })
+  }
+
+  /** Stamps an action onto the running screencast so frames can be matched to it. */
+  #mark(action: string, detail?: unknown) {
+    if (!this.#screencast) return
+    this.#screencast.mark(
+      action,
+      detail === undefined
+        ? undefined
+        : typeof detail === 'string'
+          ? detail
+          : JSON.stringify(detail),
+    )
   }
 
   /** Expose underlying Playwright page (primarily for CLI plumbing). */
@@ -578,7 +1056,16 @@ export class PlaywrightDriver implements Driver {
     }
 
     const driver = new PlaywrightDriver(browser, best.page, opts.wsUrl, logger)
-    await driver.#init()
+    driver.#runDir = dirname(runLogPath)
+    driver.#failureBundles = opts.failureBundles === true
+    if (opts.recordNetwork) {
+      await driver.startNetworkRecording(opts.recordNetwork === true ? {} : opts.recordNetwork)
+    }
+    const recorded = await recordedMainProcess(runLogPath, opts.wsUrl)
+    await driver.#init({
+      inspectorUrl: opts.inspectorUrl ?? recorded.inspectorUrl,
+      consoleTapped: recorded.consoleTapped,
+    })
     driver.#log('system', 'info', 'driver-connected', {
       wsUrl: opts.wsUrl,
       pageUrl: best.page.url(),
@@ -612,81 +1099,425 @@ export class PlaywrightDriver implements Driver {
     return best ? { page: best.page, title: best.title, url: best.url } : null
   }
 
-  async click(sel: Selector): Promise<void> {
-    const locator = buildLocator(this.#page, sel)
+  /**
+   * Resolves `sel` and runs `onPage` with its locator, or `onWebview` when it points into a
+   * `<webview>` guest; either failing becomes `E_SELECTOR` with `failure`. Actions passing no
+   * `onWebview` reject webview selectors before touching the app.
+   */
+  async #act<T>(
+    action: string,
+    sel: Selector,
+    failure: string,
+    onPage: (locator: Locator) => Promise<T>,
+    onWebview?: (webview: WebviewTarget) => Promise<T>,
+  ): Promise<T> {
+    if (sel.frame?.webview) {
+      if (!onWebview) return rejectWebview(action, sel.frame)
+      const webview = await this.#webviewFor(sel)
+      try {
+        return await onWebview(webview)
+      } catch (error) {
+        throw new AppError('E_SELECTOR', failure, { error })
+      }
+    }
+    const locator = await resolveLocator(this.#page, sel)
     try {
-      const opts = sel.timeoutMs !== undefined ? { timeout: sel.timeoutMs } : undefined
-      await locator.click(opts)
+      return await onPage(locator)
     } catch (error) {
-      throw new AppError('E_SELECTOR', 'Failed to click selector', { error })
+      throw new AppError('E_SELECTOR', failure, { error })
     }
   }
 
+  async click(sel: Selector): Promise<void> {
+    this.#mark('click', sel)
+    await this.#withFailureBundle('click', sel, () =>
+      this.#act(
+        'click',
+        sel,
+        'Failed to click selector',
+        (locator) => locator.click(timeoutOpts(sel)),
+        (webview) => webview.click(sel),
+      ),
+    )
+  }
+
   async type(sel: Selector & { value: string; clearFirst?: boolean }): Promise<void> {
-    const locator = buildLocator(this.#page, sel)
-    try {
-      if (sel.clearFirst) {
-        const clearOpts = sel.timeoutMs !== undefined ? { timeout: sel.timeoutMs } : undefined
-        await locator.fill('', clearOpts)
-      }
-      const fillOpts = sel.timeoutMs !== undefined ? { timeout: sel.timeoutMs } : undefined
-      await locator.fill(sel.value, fillOpts)
-    } catch (error) {
-      throw new AppError('E_SELECTOR', 'Failed to type into selector', { error })
-    }
+    this.#mark('type', sel)
+    const { value: _value, clearFirst: _clearFirst, ...selector } = sel
+    await this.#withFailureBundle('type', selector, () =>
+      this.#act(
+        'type',
+        sel,
+        'Failed to type into selector',
+        async (locator) => {
+          if (sel.clearFirst) await locator.fill('', timeoutOpts(sel))
+          await locator.fill(sel.value, timeoutOpts(sel))
+        },
+        (webview) => webview.fill(sel, sel.value),
+      ),
+    )
   }
 
   async press(key: string, sel?: Selector): Promise<void> {
+    this.#mark('press', sel ? { key, ...sel } : key)
+    if (sel) {
+      await this.#act(
+        'press',
+        sel,
+        `Failed to press ${key}`,
+        (locator) => locator.press(key, timeoutOpts(sel)),
+        (webview) => webview.press(sel, key),
+      )
+      return
+    }
     try {
-      if (sel) {
-        const locator = buildLocator(this.#page, sel)
-        const opts = sel.timeoutMs !== undefined ? { timeout: sel.timeoutMs } : undefined
-        await locator.press(key, opts)
-      } else {
-        await this.#page.keyboard.press(key)
-      }
+      await this.#page.keyboard.press(key)
     } catch (error) {
       throw new AppError('E_SELECTOR', `Failed to press ${key}`, { error })
     }
   }
 
   async hover(sel: Selector): Promise<void> {
-    const locator = buildLocator(this.#page, sel)
+    this.#mark('hover', sel)
+    await this.#act(
+      'hover',
+      sel,
+      'Failed to hover selector',
+      (locator) => locator.hover(timeoutOpts(sel)),
+      (webview) => webview.hover(sel),
+    )
+  }
+
+  async dblclick(sel: Selector & PointerOptions): Promise<void> {
+    this.#mark('dblclick', sel)
+    if (sel.frame?.webview) rejectWebviewPointer('dblclick', sel)
+    await this.#act(
+      'dblclick',
+      sel,
+      'Failed to double-click selector',
+      (locator) => locator.dblclick(clickOpts(sel)),
+      (webview) => webview.click(sel, { button: sel.button ?? 'left', clickCount: 2 }),
+    )
+  }
+
+  async rightClick(sel: Selector & Omit<PointerOptions, 'button'>): Promise<void> {
+    this.#mark('right-click', sel)
+    if (sel.frame?.webview) rejectWebviewPointer('rightClick', sel)
+    await this.#act(
+      'rightClick',
+      sel,
+      'Failed to right-click selector',
+      (locator) => locator.click({ ...clickOpts(sel), button: 'right' }),
+      (webview) => webview.click(sel, { button: 'right' }),
+    )
+  }
+
+  async dragTo(source: Selector, target: Selector, opts: DragOptions = {}): Promise<void> {
+    this.#mark('drag', { source, target })
+    const to = await this.#act(
+      'dragTo',
+      target,
+      'Failed to drag selector',
+      async (locator) => locator,
+    )
+    await this.#act('dragTo', source, 'Failed to drag selector', (from) =>
+      from.dragTo(to, {
+        ...(opts.sourcePosition ? { sourcePosition: opts.sourcePosition } : {}),
+        ...(opts.targetPosition ? { targetPosition: opts.targetPosition } : {}),
+        ...(source.timeoutMs !== undefined ? { timeout: source.timeoutMs } : {}),
+      }),
+    )
+  }
+
+  /**
+   * Viewport box of `sel`, after scrolling it into view. Page coordinates mean nothing inside
+   * a webview guest, so webview selectors are rejected.
+   */
+  async #origin(
+    action: string,
+    sel: Selector,
+  ): Promise<{ x: number; y: number; width: number; height: number }> {
+    return this.#act(action, sel, 'Failed to locate selector on screen', (locator) =>
+      visibleBox(locator, sel),
+    )
+  }
+
+  // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Bug in biome
+  async #mouseMove(
+    x: number,
+    y: number,
+    opts: Parameters<DriverMouse['move']>[2] & {},
+  ): Promise<{ x: number; y: number }> {
+    this.#mark('mouse-move', { x, y, ...opts })
+    const origin = opts.relativeTo
+      ? await this.#origin('mouse.move', opts.relativeTo)
+      : { x: 0, y: 0 }
+    const point = { x: origin.x + x, y: origin.y + y }
+    await this.#pointer('Failed to move the mouse', point, () =>
+      this.#page.mouse.move(point.x, point.y, opts.steps ? { steps: opts.steps } : undefined),
+    )
+    return point
+  }
+
+  /** Runs a page-level mouse call, reporting failures (e.g. a closed page) as `E_SELECTOR`. */
+  async #pointer(failure: string, details: object, action: () => Promise<void>): Promise<void> {
     try {
-      const opts = sel.timeoutMs !== undefined ? { timeout: sel.timeoutMs } : undefined
-      await locator.hover(opts)
+      await action()
     } catch (error) {
-      throw new AppError('E_SELECTOR', 'Failed to hover selector', { error })
+      throw new AppError('E_SELECTOR', failure, { ...details, error })
     }
   }
 
-  async scrollIntoView(sel: Selector): Promise<void> {
-    const locator = buildLocator(this.#page, sel)
-    try {
-      await locator.evaluate((el) => el.scrollIntoView({ block: 'center', inline: 'center' }))
-    } catch (error) {
-      throw new AppError('E_SELECTOR', 'Failed to scroll element into view', { error })
+  async wheel(
+    delta: { deltaX?: number | undefined; deltaY?: number | undefined },
+    sel?: Selector,
+  ): Promise<void> {
+    this.#mark('wheel', sel ? { ...delta, ...sel } : delta)
+    if (sel) {
+      await this.#act(
+        'wheel',
+        sel,
+        'Failed to scroll selector with the mouse wheel',
+        async (locator) => {
+          const box = await visibleBox(locator, sel)
+          await this.#page.mouse.move(box.x + box.width / 2, box.y + box.height / 2)
+          await this.#page.mouse.wheel(delta.deltaX ?? 0, delta.deltaY ?? 0)
+        },
+        (webview) => webview.wheel(sel, delta.deltaX ?? 0, delta.deltaY ?? 0),
+      )
+      return
     }
+    await this.#pointer('Failed to scroll with the mouse wheel', delta, () =>
+      this.#page.mouse.wheel(delta.deltaX ?? 0, delta.deltaY ?? 0),
+    )
+  }
+
+  async scrollIntoView(sel: Selector): Promise<void> {
+    this.#mark('scroll-into-view', sel)
+    await this.#act(
+      'scrollIntoView',
+      sel,
+      'Failed to scroll element into view',
+      (locator) =>
+        locator.evaluate((el) => el.scrollIntoView({ block: 'center', inline: 'center' })),
+      (webview) => webview.scrollIntoView(sel),
+    )
   }
 
   async upload(sel: Selector, filePath: string): Promise<void> {
-    const locator = buildLocator(this.#page, sel)
-    try {
-      await locator.setInputFiles(filePath)
-    } catch (error) {
-      throw new AppError('E_SELECTOR', 'Failed to upload file', { error })
+    this.#mark('upload', { ...sel, filePath })
+    await this.#act('upload', sel, 'Failed to upload file', (locator) =>
+      locator.setInputFiles(filePath),
+    )
+  }
+
+  async stubDialogs(responses: DialogResponse[] = []): Promise<{ pending: number }> {
+    const pending = (await this.#evalInMain(
+      `(${installDialogStubsInMain.toString()})(${JSON.stringify({ responses })}, ${mainRecorderSource()})`,
+    )) as number
+    this.#log('dialog', 'info', 'dialog-stubs-installed', { queued: responses.length, pending })
+    return { pending }
+  }
+
+  async getDialogCalls(): Promise<{ calls: DialogCall[]; pending: DialogResponse[] }> {
+    return (await this.#evalInMain(readDialogStubsInMain)) as {
+      calls: DialogCall[]
+      pending: DialogResponse[]
     }
   }
 
+  async restoreDialogs(): Promise<boolean> {
+    const restored = (await this.#evalInMain(removeDialogStubsInMain)) as boolean
+    if (restored) this.#log('dialog', 'info', 'dialog-stubs-removed')
+    return restored
+  }
+
+  async traceMainIpc(opts: IpcTraceOptions = {}): Promise<MainIpcHooks> {
+    this.#ipcLimits = {
+      maxChars: opts.maxPayloadChars ?? 1024,
+      redact: opts.redactKeys ?? defaultRedactKeys,
+    }
+    const hooks = (await this.#evalInMain(this.#mainIpcHooksSource(true))) as MainIpcHooks
+    // Preload contexts created from now on get the flag when the tracer is installed.
+    this.#ipcCorrelate = true
+    for (const { session, contexts } of this.#pageSessions.values()) {
+      for (const ctx of contexts.values()) {
+        if (ctx.world === 'preload') await this.#installIpcTracer(session, ctx.id)
+      }
+    }
+    if (!hooks.handles) {
+      this.#log('ipc', 'warn', 'main-ipc-handle-unhooked', {
+        hint: 'ipcMain has neither an internal handler map nor ipcMain.handle; handle calls are not traced.',
+      })
+    } else if (!hooks.existingHandles) {
+      this.#log('ipc', 'warn', 'main-ipc-handle-wrapped', {
+        hint: `ipcMain has no internal handler map (Electron ${minIpcHookElectron}+); only handlers registered from now on are traced.`,
+      })
+    }
+    this.#log('ipc', 'info', 'main-ipc-trace-enabled', { ...hooks })
+    return hooks
+  }
+
+  async stubIpcHandle(channel: string, response: IpcStubResponse): Promise<() => Promise<void>> {
+    const hooks = (await this.#evalInMain(this.#mainIpcHooksSource(false))) as MainIpcHooks
+    if (!hooks.existingHandles) {
+      throw new AppError(
+        'E_INTERNAL',
+        'ipcMain handlers cannot be stubbed in this Electron version',
+        {
+          channel,
+          hint: `Stubs need ipcMain's internal handler map (Electron ${minIpcHookElectron}+).`,
+        },
+      )
+    }
+    await this.#evalInMain(setIpcStubInMain, { channel, response })
+    this.#log('ipc', 'info', 'ipc-stub-added', {
+      channel,
+      ...(response.error !== undefined
+        ? { error: response.error }
+        : { result: summarizePayload(response.result, this.#ipcLimits) }),
+    })
+    return async () => {
+      await this.clearIpcStubs(channel)
+    }
+  }
+
+  async clearIpcStubs(channel?: string): Promise<number> {
+    const removed = (await this.#evalInMain(clearIpcStubsInMain, { channel })) as number
+    if (removed > 0) this.#log('ipc', 'info', 'ipc-stubs-removed', { channel, removed })
+    return removed
+  }
+
+  /** The hook installer takes `summarizePayload` and the recorder as arguments, so it is sent as text. */
+  #mainIpcHooksSource(tracing: boolean) {
+    const arg = { idChannel: ipcIdChannel, tracing, limits: this.#ipcLimits }
+    return `(${installMainIpcHooksInMain.toString()})(${JSON.stringify(arg)}, ${summarizePayload.toString()}, ${mainRecorderSource()})`
+  }
+
+  /**
+   * Context menus can only be read while open, so the first menu call hooks `Menu.popup` in the
+   * main process. The hook outlives the driver; later drivers find it installed.
+   */
+  async #trackMenus() {
+    if (this.#menusTracked) return
+    await this.#evalInMain(trackContextMenusInMain)
+    this.#menusTracked = true
+  }
+
+  async getMenu(opts: { context?: boolean | undefined } = {}): Promise<MenuItemInfo[]> {
+    await this.#trackMenus()
+    const menu = (await this.#evalInMain(readMenuInMain, {
+      context: opts.context === true,
+    })) as MenuItemInfo[] | null
+    return menu ?? []
+  }
+
+  async clickMenu(
+    path: string | string[],
+    opts: { context?: boolean | undefined } = {},
+  ): Promise<{ path: string[]; checked?: boolean }> {
+    const steps = typeof path === 'string' ? path.split('>').map((step) => step.trim()) : path
+    this.#mark('menu-click', steps.join(' > '))
+    await this.#trackMenus()
+    const session = this.#pageSessions.get(this.#page)?.session
+    const info = await session?.send('Target.getTargetInfo').catch(() => null)
+    const result = (await this.#evalInMain(clickMenuInMain, {
+      path: steps,
+      context: opts.context === true,
+      targetId: info?.targetInfo.targetId ?? null,
+    })) as Awaited<ReturnType<typeof clickMenuInMain>>
+    if (!result.ok) {
+      const message =
+        result.reason === 'no-menu'
+          ? `No ${opts.context ? 'context' : 'application'} menu is open`
+          : result.reason === 'disabled'
+            ? `Menu item ${result.at.join(' > ')} is disabled`
+            : `No menu item ${steps.slice(0, result.at.length + 1).join(' > ')}`
+      throw new AppError('E_SELECTOR', message, {
+        path: steps,
+        reason: result.reason,
+        at: result.at,
+        options: result.options,
+      })
+    }
+    this.#log('system', 'info', 'menu-click', { path: result.path.join(' > ') })
+    return result.checked === undefined
+      ? { path: result.path }
+      : { path: result.path, checked: result.checked }
+  }
+
   async waitText(text: string, timeoutMs = 10_000): Promise<void> {
+    this.#mark('wait-text', text)
+    await this.#withFailureBundle('wait-text', { text }, async () => {
+      try {
+        const locator = this.#page.getByText(text, { exact: false }).first()
+        await locator.waitFor({
+          state: 'visible',
+          timeout: timeoutMs,
+        })
+      } catch (error) {
+        throw new AppError('E_WAIT_TIMEOUT', `Text "${text}" not visible in time`, { error })
+      }
+    })
+  }
+
+  /**
+   * Runs an action; with `failureBundles` on, an `E_SELECTOR` / `E_WAIT_TIMEOUT` from it gets a
+   * `failures/<n>/` bundle captured and attached as `details.bundle` before it is rethrown.
+   */
+  async #withFailureBundle(action: string, sel: Selector, run: () => Promise<void>) {
     try {
-      const locator = this.#page.getByText(text, { exact: false }).first()
-      await locator.waitFor({
-        state: 'visible',
-        timeout: timeoutMs,
-      })
+      await run()
     } catch (error) {
-      throw new AppError('E_WAIT_TIMEOUT', `Text "${text}" not visible in time`, { error })
+      if (
+        !this.#failureBundles ||
+        !(error instanceof AppError) ||
+        (error.code !== 'E_SELECTOR' && error.code !== 'E_WAIT_TIMEOUT')
+      ) {
+        throw error
+      }
+      const page = this.#page
+      // A webview selector failed inside the guest, so describe the guest rather than the host.
+      const guest = sel.frame?.webview
+        ? await this.listWebviews()
+            .then((webviews) => matchWebview(webviews, sel.frame ?? {}))
+            .catch(() => undefined)
+        : undefined
+      const webview = guest ? await this.#attachWebview(guest).catch(() => null) : null
+      const inGuest = async <T>(fn: (target: WebviewTarget) => Promise<T>) => {
+        if (!webview) throw new Error('No webview matches the selector')
+        return fn(webview)
+      }
+      const bundle = await captureFailureBundle(this.#runDir, {
+        action,
+        selector: sel,
+        code: error.code,
+        message: error.message,
+        url: guest?.url ?? page.url(),
+        title: guest ? guest.title : await page.title().catch(() => ''),
+        scope: sel.frame?.webview ? 'webview' : 'page',
+        screenshot: async (path) => {
+          await page.screenshot({ path, timeout: 5_000 })
+        },
+        dom: sel.frame?.webview
+          ? () => inGuest((target) => target.evaluate<string>(serializeDomInPage, { shadow: true }))
+          : async () => (await this.dumpDOM(undefined, undefined, { shadow: true })).html,
+        selectors: sel.frame?.webview
+          ? () =>
+              inGuest((target) =>
+                target.evaluate<SelectorList>(scanSelectorsInPage, { limit: 200, shadow: true }),
+              )
+          : () => this.listSelectors(200, { shadow: true }),
+      }).catch(() => null)
+      if (bundle) {
+        error.details = { ...error.details, bundle }
+        this.#log('failure', 'error', `${action} failed`, {
+          code: error.code,
+          dir: bundle.dir,
+          candidates: bundle.candidates.map((candidate) => candidate.matched),
+        })
+      }
+      throw error
     }
   }
 
@@ -700,6 +1531,57 @@ export class PlaywrightDriver implements Driver {
     }
   }
 
+  expect(sel: Selector, opts: { timeoutMs?: number | undefined } = {}): Expectation {
+    if (sel.frame?.webview) rejectWebview('expect', sel.frame)
+    const resolve = () => ({
+      target: buildLocator(this.#page, sel),
+      all: buildLocator(this.#page, { ...sel, nth: undefined, strict: true }),
+    })
+    return new SelectorExpectation(
+      sel,
+      resolve,
+      (outcome) => this.#reportAssertion(outcome),
+      (message, details) => new AppError('E_BAD_INPUT', message, details),
+      opts.timeoutMs,
+    )
+  }
+
+  #reportAssertion({
+    pass,
+    assertion,
+    selector,
+    expected,
+    actual,
+    count,
+    elapsedMs,
+    timeoutMs,
+  }: AssertionOutcome) {
+    const meta = { selector, expected, actual, count, elapsedMs }
+    if (pass) {
+      this.#log('assert', 'info', `${assertion} passed`, meta)
+      return
+    }
+    this.#log('assert', 'error', `${assertion} failed`, { ...meta, timeoutMs })
+    throw new AppError(
+      'E_ASSERT',
+      `${assertion} failed after ${timeoutMs}ms: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)} (${count} matching)`,
+      { assertion, selector, expected, actual, count, timeoutMs },
+    )
+  }
+
+  async getDom(sel: Selector, as: 'innerHTML' | 'textContent'): Promise<string> {
+    return this.#act(
+      'getDom',
+      sel,
+      'Failed to read selector',
+      async (locator) =>
+        (as === 'innerHTML'
+          ? await locator.innerHTML(timeoutOpts(sel))
+          : await locator.textContent(timeoutOpts(sel))) ?? '',
+      (webview) => webview.read(sel, as),
+    )
+  }
+
   async dumpOuterHTML(truncateAt?: number): Promise<string> {
     try {
       const html = await this.#page.evaluate(() => document.documentElement?.outerHTML ?? '')
@@ -712,41 +1594,80 @@ export class PlaywrightDriver implements Driver {
     }
   }
 
-  async listSelectors(max = 200): Promise<{
-    testIds: string[]
-    roles: { role: string; name: string | null; selector: string }[]
-    texts: { text: string; selector: string }[]
-  }> {
+  async observe(opts: { max?: number | undefined } = {}): Promise<ObservedElement[]> {
     try {
-      return await this.#page.evaluate((limit) => {
-        const uniq = <T>(arr: T[]) => Array.from(new Set(arr)).slice(0, limit)
-        const testIds = uniq(
-          Array.from(document.querySelectorAll('[data-testid]'))
-            .map((el) => el.getAttribute('data-testid'))
-            .filter((v): v is string => Boolean(v)),
+      return await this.#page.evaluate(observeInPage, { attr: refAttribute, max: opts.max ?? 200 })
+    } catch (error) {
+      throw new AppError('E_INTERNAL', 'Failed to observe elements', { error })
+    }
+  }
+
+  async ariaSnapshot(sel?: Selector): Promise<AriaNode[]> {
+    const scope = sel
+      ? await this.#act(
+          'ariaSnapshot',
+          sel,
+          'Failed to resolve selector',
+          async (locator) => locator,
         )
+      : this.#page.locator(':root')
+    let yaml: string
+    try {
+      yaml = await scope.ariaSnapshot(
+        sel?.timeoutMs !== undefined ? { timeout: sel.timeoutMs } : undefined,
+      )
+    } catch (error) {
+      throw new AppError('E_SELECTOR', 'Failed to snapshot accessibility tree', { error })
+    }
 
-        const roleElements = Array.from(document.querySelectorAll('[role]')).slice(0, limit)
-        const roles = roleElements.map((el) => ({
-          role: (el.getAttribute('role') ?? '').trim(),
-          name: (el.getAttribute('aria-label') ?? el.textContent ?? '').trim() || null,
-          selector: el.tagName.toLowerCase(),
-        }))
-
-        const textEls = Array.from(
-          document.querySelectorAll('button, a, h1, h2, h3, p, span'),
-        ).slice(0, limit)
-        const texts = textEls
-          .map((el) => ({
-            text: (el.textContent ?? '').trim(),
-            selector: el.tagName.toLowerCase(),
-          }))
-          .filter((item) => item.text.length > 0)
-          .slice(0, limit)
-
-        return { testIds, roles, texts }
-      }, max)
+    const root = sel ? await scope.elementHandle().catch(() => null) : null
+    // Counted in the frame the snapshot came from, like the selectors handed back.
+    const matchesFor = (key: AriaMatchKey) =>
+      buildLocator(this.#page, { ...keySelector(key, sel?.frame), strict: true })
+    try {
+      return await attachSelectors(
+        parseAriaSnapshot(yaml),
+        (key) =>
+          matchesFor(key).evaluateAll(
+            (els, scopeEl) =>
+              els.flatMap((el, index) => (!scopeEl || scopeEl.contains(el) ? [index] : [])),
+            root,
+          ),
+        sel?.frame,
+      )
+    } finally {
+      await root?.dispose()
+    }
+  }
+
+  async listSelectors(
+    max = 200,
+    opts: DomScanOptions = {},
+  ): Promise<
+    SelectorList & {
+      frames?: Array<SelectorList & { name: string; url: string; webview?: boolean }>
+    }
+  > {
+    const scan = { limit: max, shadow: opts.shadow === true }
+    try {
+      const main = await this.#page.evaluate(scanSelectorsInPage, scan)
+      if (!opts.frames) return main
+      const frames: Array<SelectorList & { name: string; url: string; webview?: boolean }> = []
+      for (const frame of this.#page.frames()) {
+        if (frame === this.#page.mainFrame()) continue
+        const found = await frame.evaluate(scanSelectorsInPage, scan).catch(() => null)
+        if (found) frames.push({ name: frame.name(), url: frame.url(), ...found })
+      }
+      for (const info of await this.listWebviews()) {
+        const webview = await this.#attachWebview(info)
+        const found = await webview
+          .evaluate<SelectorList>(scanSelectorsInPage, scan)
+          .catch(() => null)
+        if (found) frames.push({ name: '', url: info.url, webview: true, ...found })
+      }
+      return { ...main, frames }
     } catch (error) {
+      if (error instanceof AppError) throw error
       throw new AppError('E_INTERNAL', 'Failed to list selectors', { error })
     }
   }
@@ -832,6 +1753,10 @@ export class PlaywrightDriver implements Driver {
     return this.#evalInContext('preload', fn, arg)
   }
 
+  async evalInMain<T = unknown>(fn: (...args: unknown[]) => T, arg?: unknown): Promise<Awaited<T>> {
+    return (await this.#evalInMain(fn, arg)) as Awaited<T>
+  }
+
   onRendererReload(cb: () => void): () => void {
     this.#emitter.on('renderer-reload', cb)
     return () => this.#emitter.off('renderer-reload', cb)
@@ -1052,24 +1977,105 @@ export class PlaywrightDriver implements Driver {
   async dumpDOM(
     selector?: string,
     truncateAt?: number,
+    opts: DomScanOptions = {},
   ): Promise<{ html: string; url: string; title: string }> {
     const page = this.#page
-    const html = await page.evaluate(
-      ({ sel }) => {
-        if (sel) {
-          const node = document.querySelector(sel)
-          return node ? node.outerHTML : ''
-        }
-        return document.documentElement?.outerHTML ?? ''
-      },
-      { sel: selector },
-    )
+    const scan = { selector, shadow: opts.shadow === true }
+    let html = await page.evaluate(serializeDomInPage, scan)
+    if (opts.frames) {
+      // `--` can't appear inside an HTML comment.
+      const quote = (value: string) => JSON.stringify(value).replace(/--/g, '-%2D')
+      const marker = (kind: string, name: string, url: string) =>
+        `\n<!-- ${kind} name=${quote(name)} url=${quote(url)} -->\n`
+      for (const frame of page.frames()) {
+        if (frame === page.mainFrame()) continue
+        const inner = await frame.evaluate(serializeDomInPage, scan).catch(() => '')
+        html += `${marker('frame', frame.name(), frame.url())}${inner}`
+      }
+      for (const info of await this.listWebviews().catch(() => [])) {
+        const webview = await this.#attachWebview(info).catch(() => null)
+        const inner = webview
+          ? await webview.evaluate<string>(serializeDomInPage, scan).catch(() => '')
+          : ''
+        html += `${marker('webview', info.title, info.url)}${inner}`
+      }
+    }
     const title = await page.title().catch(() => '')
     const url = page.url()
     const output = truncateAt && html.length > truncateAt ? html.slice(0, truncateAt) : html
     return { html: output, url, title }
   }
 
+  async listWebviews(): Promise<WebviewInfo[]> {
+    if (!this.#browserSession) {
+      throw new AppError('E_INTERNAL', 'CDP session not available')
+    }
+    try {
+      return await listWebviewTargets(this.#browserSession)
+    } catch (error) {
+      throw new AppError('E_INTERNAL', 'Failed to list webviews', { error })
+    }
+  }
+
+  async #attachWebview(info: WebviewInfo): Promise<WebviewTarget> {
+    const existing = this.#webviews.get(info.id)
+    if (existing?.connected) return existing
+    try {
+      const webview = await WebviewTarget.connect(this.#wsUrl, info.id)
+      this.#webviews.set(info.id, webview)
+      this.#log('system', 'info', 'webview-attached', { url: info.url })
+      return webview
+    } catch (error) {
+      throw new AppError('E_INTERNAL', 'Failed to attach to webview', {
+        url: info.url,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  /** Webview guests attach after their embedder loads, so wait for a match up to `timeoutMs`. */
+  async #webview(pick: { url?: string | undefined }, timeoutMs = 10_000): Promise<WebviewTarget> {
+    const deadline = Date.now() + timeoutMs
+    for (;;) {
+      const webviews = await this.listWebviews()
+      const info = matchWebview(webviews, pick)
+      if (info) return this.#attachWebview(info)
+      if (Date.now() >= deadline) {
+        throw new AppError('E_SELECTOR', 'No webview matches the selector', {
+          frame: pick,
+          webviews,
+          reason: 'no-frame',
+        })
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200))
+    }
+  }
+
+  async #webviewFor(sel: Selector): Promise<WebviewTarget> {
+    const unsupported = unsupportedWebviewFields(sel)
+    if (unsupported.length) {
+      throw new AppError('E_SELECTOR', 'Selector fields not supported inside webviews', {
+        fields: unsupported,
+        hint: 'Webview selectors take css, testid, text, exact and nth.',
+        reason: 'webview',
+      })
+    }
+    return this.#webview(sel.frame ?? {}, sel.timeoutMs)
+  }
+
+  async evalInWebview<T = unknown>(
+    pick: { url?: string | undefined },
+    fn: (...args: never[]) => T,
+    arg?: unknown,
+  ): Promise<Awaited<T>> {
+    const webview = await this.#webview(pick)
+    try {
+      return await webview.evaluate<Awaited<T>>(fn, arg)
+    } catch (error) {
+      throw new AppError('E_INTERNAL', (error as Error).message, { error })
+    }
+  }
+
   async getRendererInspectorUrl(): Promise<string> {
     if (!this.#browserSession) {
       throw new AppError('E_INTERNAL', 'CDP session not available')
@@ -1101,11 +2107,231 @@ export class PlaywrightDriver implements Driver {
     return `devtools://devtools/bundled/inspector.html?ws=${base}/devtools/page/${match.targetId}`
   }
 
+  async startNetworkRecording(opts: NetworkRecordOptions = {}): Promise<{ path: string }> {
+    if (this.#recorder) {
+      throw new AppError('E_INTERNAL', 'Network recording already active', {
+        path: this.#recorder.path,
+      })
+    }
+    const recorder = new NetworkRecorder(opts.path ?? join(this.#runDir, 'network.har'), opts)
+    for (const context of this.#browser.contexts()) recorder.attach(context)
+    this.#recorder = recorder
+    this.#log('system', 'info', 'network-recording-started', {
+      path: recorder.path,
+      maxBodyBytes: opts.maxBodyBytes,
+    })
+    return { path: recorder.path }
+  }
+
+  async stopNetworkRecording(): Promise<NetworkRecording | null> {
+    const recorder = this.#recorder
+    if (!recorder) return null
+    this.#recorder = null
+    try {
+      const saved = await recorder.stop()
+      this.#log('system', 'info', 'network-recording-saved', { ...saved })
+      return saved
+    } catch (error) {
+      throw new AppError('E_FS', 'Failed to write network recording', {
+        path: recorder.path,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  /**
+   * Routes live on the browser context, so they keep applying across reloads and to windows
+   * opened later; contexts are picked up as pages get wired.
+   */
+  async #applyRoutes(context: BrowserContext) {
+    if (this.#routedContexts.has(context)) return
+    this.#routedContexts.add(context)
+    for (const { url, handler } of this.#routes) await context.route(url, handler)
+  }
+
+  async #addRoute(url: string | RegExp, handler: (route: Route) => Promise<void>) {
+    const entry = { url, handler }
+    this.#routes.push(entry)
+    for (const context of this.#routedContexts) await context.route(url, handler)
+    for (const context of this.#browser.contexts()) await this.#applyRoutes(context)
+    return async () => {
+      const index = this.#routes.indexOf(entry)
+      if (index === -1) return
+      this.#routes.splice(index, 1)
+      for (const context of this.#routedContexts) {
+        await context.unroute(url, handler).catch(() => {})
+      }
+    }
+  }
+
+  async route(
+    pattern: string | RegExp,
+    handler: RouteHandler | MockResponse,
+  ): Promise<() => Promise<void>> {
+    return this.#addRoute(pattern, async (route) => {
+      const request = route.request()
+      this.#log('network', 'info', 'mocked', {
+        method: request.method(),
+        url: request.url(),
+        status: typeof handler === 'function' ? undefined : (handler.status ?? 200),
+        pattern: String(pattern),
+      })
+      if (typeof handler === 'function') await handler(route, request)
+      else await fulfillMock(route, handler)
+    })
+  }
+
+  async loadMocks(source: string | MockRule[]): Promise<() => Promise<void>> {
+    let rules: MockRule[]
+    if (typeof source === 'string') {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(await readFile(source, 'utf-8'))
+      } catch (error) {
+        throw new AppError('E_FS', 'Unable to read mock file', {
+          path: source,
+          error: (error as Error).message,
+        })
+      }
+      rules = this.#parseMocks(parsed, dirname(resolve(source)))
+    } else {
+      rules = this.#parseMocks(source, process.cwd())
+    }
+
+    const removers: Array<() => Promise<void>> = []
+    for (const rule of rules) {
+      const method = rule.method?.toUpperCase()
+      const remove = await this.#addRoute(ruleUrl(rule), async (route) => {
+        const request = route.request()
+        if (method && request.method() !== method) return route.fallback()
+        this.#log('network', 'info', 'mocked', {
+          method: request.method(),
+          url: request.url(),
+          status: rule.status ?? 200,
+          rule: describeRule(rule),
+        })
+        await fulfillMock(route, rule)
+      })
+      removers.push(remove)
+    }
+    this.#log('system', 'info', 'mocks-loaded', {
+      rules: rules.length,
+      source: typeof source === 'string' ? source : 'inline',
+    })
+    return async () => {
+      for (const remove of removers) await remove()
+    }
+  }
+
+  #parseMocks(raw: unknown, baseDir: string): MockRule[] {
+    try {
+      return normalizeMockRules(raw, baseDir)
+    } catch (error) {
+      throw new AppError('E_INTERNAL', (error as Error).message)
+    }
+  }
+
+  async clearRoutes(): Promise<number> {
+    const routes = this.#routes.splice(0)
+    for (const context of this.#routedContexts) {
+      for (const { url, handler } of routes) await context.unroute(url, handler).catch(() => {})
+    }
+    return routes.length
+  }
+
+  async startTracing(opts: TraceOptions = {}): Promise<{ path: string }> {
+    if (this.#trace) {
+      throw new AppError('E_INTERNAL', 'Tracing already active', { path: this.#trace.path })
+    }
+    const context = this.#page.context()
+    const path = opts.path ?? join(this.#runDir, 'trace.zip')
+    await context.tracing.start({
+      screenshots: opts.screenshots ?? true,
+      snapshots: opts.snapshots ?? true,
+      sources: opts.sources ?? true,
+      ...(opts.title ? { title: opts.title } : {}),
+    })
+    this.#trace = { context, path }
+    this.#log('system', 'info', 'trace-started', { path })
+    return { path }
+  }
+
+  async stopTracing(): Promise<{ path: string } | null> {
+    const trace = this.#trace
+    if (!trace) return null
+    this.#trace = null
+    try {
+      await ensureDir(trace.path)
+      await trace.context.tracing.stop({ path: trace.path })
+    } catch (error) {
+      throw new AppError('E_FS', 'Failed to write trace', {
+        path: trace.path,
+        error: (error as Error).message,
+      })
+    }
+    this.#log('system', 'info', 'trace-saved', { path: trace.path })
+    return { path: trace.path }
+  }
+
+  async startScreencast(opts: ScreencastOptions = {}): Promise<{ dir: string }> {
+    if (this.#screencast) {
+      throw new AppError('E_INTERNAL', 'Screencast already active', { dir: this.#screencast.dir })
+    }
+    const recorder = new ScreencastRecorder(
+      opts.dir ?? join(this.#runDir, 'screencast'),
+      opts,
+      () => this.#log('system', 'warn', 'screencast-max-duration', { dir: recorder.dir }),
+    )
+    try {
+      await recorder.start(this.#page)
+    } catch (error) {
+      throw new AppError('E_INTERNAL', 'Failed to start screencast', {
+        error: (error as Error).message,
+      })
+    }
+    this.#screencast = recorder
+    this.#log('system', 'info', 'screencast-started', { dir: recorder.dir, fps: opts.fps })
+    return { dir: recorder.dir }
+  }
+
+  async stopScreencast(): Promise<ScreencastResult | null> {
+    const recorder = this.#screencast
+    if (!recorder) return null
+    this.#screencast = null
+    try {
+      const result = await recorder.stop()
+      this.#log('system', 'info', 'screencast-saved', {
+        dir: result.dir,
+        frames: result.frames,
+        video: result.video,
+      })
+      return result
+    } catch (error) {
+      throw new AppError('E_FS', 'Failed to write screencast', {
+        dir: recorder.dir,
+        error: (error as Error).message,
+      })
+    }
+  }
+
   async close(): Promise<void> {
     // For CDP attachments, `browser.close()` **only** closes the client connection; it does not
     // shut down the remote Electron instance. Using private connection handles left the event loop
     // hanging, so stick with the public API here.
     this.#unwireEvents(this.#page)
+    await this.stopNetworkRecording().catch((error: AppError) => {
+      this.#log('system', 'warn', 'network-recording-failed', error.details)
+    })
+    await this.stopTracing().catch((error: AppError) => {
+      this.#log('system', 'warn', 'trace-failed', error.details)
+    })
+    await this.stopScreencast().catch((error: AppError) => {
+      this.#log('system', 'warn', 'screencast-failed', error.details)
+    })
+    for (const webview of this.#webviews.values()) await webview.close().catch(() => {})
+    this.#webviews.clear()
+    if (this.#mainSession?.connected) await this.#drainMainRecords()
+    await this.#mainSession?.close()
     await this.#browser.close()
     this.#log('system', 'info', 'driver-close')
     this.#logger?.close()
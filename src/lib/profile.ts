@@ -0,0 +1,65 @@
+import { cp, mkdir, rename, rm, stat } from 'node:fs/promises'
+import * as path from 'node:path'
+
+import type { LaunchOptions } from './types.js'
+
+/** Env var carrying the isolated profile path to the app (`app.setPath('userData', …)`). */
+export const userDataDirEnv = 'E2E_USER_DATA_DIR'
+
+/**
+ * How the app is pointed at the profile: `user-data-dir` passes `--user-data-dir`, `app-env` only
+ * sets `E2E_USER_DATA_DIR`, so the profile is isolated only if the app reads that variable.
+ */
+export type ProfileIsolation = 'user-data-dir' | 'app-env'
+
+export type PreparedProfile = {
+  dir: string
+  keep: boolean
+  seededFrom?: string | undefined
+  isolation: ProfileIsolation
+}
+
+/**
+ * Creates `<runDir>/profile`, optionally seeded from a fixture directory or a kept profile.
+ * Returns null when profiles are disabled (`profile: false`).
+ */
+export const prepareProfile = async (
+  runDir: string,
+  opts: LaunchOptions['profile'],
+): Promise<PreparedProfile | null> => {
+  if (opts === false) return null
+  const settings = opts === true || opts === undefined ? {} : opts
+  const dir = path.resolve(runDir, 'profile')
+
+  if (settings.seedFrom) {
+    const source = path.resolve(settings.seedFrom)
+    const info = await stat(source)
+    if (!info.isDirectory()) throw new Error(`Profile seed is not a directory: ${source}`)
+    // Copied aside first: the seed may be this run's own kept profile, which is replaced below.
+    const staged = `${dir}.seed-${process.pid}-${Math.random().toString(36).slice(2, 8)}`
+    try {
+      await cp(source, staged, { recursive: true })
+      await rm(dir, { recursive: true, force: true })
+      await rename(staged, dir)
+    } catch (error) {
+      await rm(staged, { recursive: true, force: true }).catch(() => {})
+      throw error
+    }
+  } else {
+    // A reused artifactPrefix must not leak state from the previous run into this one.
+    await rm(dir, { recursive: true, force: true })
+    await mkdir(dir, { recursive: true })
+  }
+
+  return {
+    dir,
+    keep: Boolean(settings.keep),
+    seededFrom: settings.seedFrom ? path.resolve(settings.seedFrom) : undefined,
+    isolation: settings.userDataDirArg ? 'user-data-dir' : 'app-env',
+  }
+}
+
+export const disposeProfile = async (profile: { dir: string; keep?: boolean | undefined }) => {
+  if (profile.keep) return
+  await rm(profile.dir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 })
+}
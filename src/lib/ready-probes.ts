@@ -0,0 +1,197 @@
+import { EventEmitter } from 'node:events'
+import { type Browser, chromium, type Page } from 'playwright'
+
+import type { ConnectOptions, ReadyProbe } from './types.js'
+
+const POLL_MS = 100
+const defaultBridgeGlobals = ['__eatBridgeReady__', '__eatTestHarness__', 'eatBridge']
+
+type StreamSource = 'stdout' | 'stderr'
+
+/**
+ * Remembers stdout/stderr lines from spawn onwards so `log` probes also match output printed
+ * before CDP came up.
+ */
+export class LineTap {
+  #lines: { source: StreamSource; line: string }[] = []
+  #emitter = new EventEmitter()
+
+  push(source: StreamSource, chunk: Buffer | string) {
+    const text = typeof chunk === 'string' ? chunk : chunk.toString('utf-8')
+    for (const line of text.split(/\r?\n/)) {
+      if (!line.length) continue
+      this.#lines.push({ source, line })
+      this.#emitter.emit('line', source, line)
+    }
+  }
+
+  waitFor(pattern: RegExp, source: StreamSource | undefined, signal: AbortSignal): Promise<void> {
+    const matches = (from: StreamSource, line: string) =>
+      (!source || source === from) && pattern.test(line)
+    if (this.#lines.some((entry) => matches(entry.source, entry.line))) return Promise.resolve()
+    return new Promise((resolve) => {
+      const onLine = (from: StreamSource, line: string) => {
+        if (!matches(from, line)) return
+        this.#emitter.off('line', onLine)
+        resolve()
+      }
+      this.#emitter.on('line', onLine)
+      signal.addEventListener(
+        'abort',
+        () => {
+          this.#emitter.off('line', onLine)
+          resolve()
+        },
+        { once: true },
+      )
+    })
+  }
+}
+
+export const describeProbe = (probe: ReadyProbe): string => {
+  if ('log' in probe) return `log ${String(probe.log)}${probe.source ? ` (${probe.source})` : ''}`
+  if ('predicate' in probe) {
+    return `predicate ${String(probe.predicate).replace(/\s+/g, ' ').slice(0, 80)}`
+  }
+  if ('bridge' in probe) {
+    return `bridge ${probe.bridge === true ? defaultBridgeGlobals.join('|') : String(probe.bridge)}`
+  }
+  return `window ${JSON.stringify(probe.window)}`
+}
+
+const toPattern = (value: RegExp | string) =>
+  typeof value === 'string' ? new RegExp(value) : value
+
+const matchesPick = async (page: Page, pick: ConnectOptions['pick']) => {
+  if (pick?.urlIncludes && !page.url().includes(pick.urlIncludes)) return false
+  if (pick?.titleContains) {
+    const title = await page.title().catch(() => '')
+    if (!title.includes(pick.titleContains)) return false
+  }
+  return true
+}
+
+const pagesOf = (browser: Browser) => browser.contexts().flatMap((ctx) => ctx.pages())
+
+/** Polls every renderer page until `check` passes on one of them. */
+const pollPages = async (
+  browser: Browser,
+  check: (page: Page) => Promise<boolean>,
+  signal: AbortSignal,
+  onError: (error: unknown) => void,
+) => {
+  while (!signal.aborted) {
+    for (const page of pagesOf(browser)) {
+      try {
+        if (await check(page)) return
+      } catch (error) {
+        onError(error)
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_MS))
+  }
+}
+
+export type ProbeFailure = { probe: string; timeoutMs: number; lastError?: string | undefined }
+
+/**
+ * Runs all probes concurrently. Resolves with null once every probe passed, or with the first
+ * probe that timed out. Renderer probes share a single CDP connection.
+ */
+export const runReadyProbes = async ({
+  probes,
+  wsUrl,
+  lines,
+  defaultTimeoutMs,
+  signal,
+}: {
+  probes: ReadyProbe[]
+  wsUrl: string
+  lines: LineTap
+  defaultTimeoutMs: number
+  /** Stops all probes early (e.g. the app exited); they then count as passed. */
+  signal?: AbortSignal | undefined
+}): Promise<ProbeFailure | null> => {
+  const needsBrowser = probes.some((probe) => !('log' in probe))
+  const browser = needsBrowser ? await chromium.connectOverCDP(wsUrl) : null
+  const controller = new AbortController()
+  signal?.addEventListener('abort', () => controller.abort(), { once: true })
+
+  const runProbe = async (probe: ReadyProbe): Promise<ProbeFailure | null> => {
+    const timeoutMs = probe.timeoutMs ?? defaultTimeoutMs
+    const probeController = new AbortController()
+    const abort = () => probeController.abort()
+    controller.signal.addEventListener('abort', abort, { once: true })
+    let lastError: string | undefined
+    const onError = (error: unknown) => {
+      lastError = error instanceof Error ? error.message : String(error)
+    }
+
+    const check = (): Promise<void> => {
+      const signal = probeController.signal
+      if ('log' in probe) return lines.waitFor(toPattern(probe.log), probe.source, signal)
+      // needsBrowser guarantees a connection for every non-log probe.
+      const connected = browser as Browser
+      if ('predicate' in probe) {
+        const fn = probe.predicate
+        return pollPages(
+          connected,
+          async (page) =>
+            (await matchesPick(page, probe.window)) && Boolean(await page.evaluate(fn)),
+          signal,
+          onError,
+        )
+      }
+      if ('bridge' in probe) {
+        const names =
+          probe.bridge === true
+            ? defaultBridgeGlobals
+            : Array.isArray(probe.bridge)
+              ? probe.bridge
+              : [probe.bridge]
+        return pollPages(
+          connected,
+          (page) =>
+            page.evaluate(
+              (globals) =>
+                globals.some((name) => (globalThis as Record<string, unknown>)[name] != null),
+              names,
+            ),
+          signal,
+          onError,
+        )
+      }
+      return pollPages(connected, (page) => matchesPick(page, probe.window), signal, onError)
+    }
+
+    let timer: NodeJS.Timeout | undefined
+    const timedOut = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs)
+      timer.unref()
+    })
+    try {
+      const outcome = await Promise.race([check().then(() => 'passed' as const), timedOut])
+      return outcome === 'passed' ? null : { probe: describeProbe(probe), timeoutMs, lastError }
+    } finally {
+      clearTimeout(timer)
+      probeController.abort()
+      controller.signal.removeEventListener('abort', abort)
+    }
+  }
+
+  try {
+    const results = await Promise.all(
+      probes.map((probe) =>
+        runProbe(probe).then((failure) => {
+          // One timeout decides the outcome; stop polling for the rest.
+          if (failure) controller.abort()
+          return failure
+        }),
+      ),
+    )
+    return results.find((failure) => failure !== null) ?? null
+  } finally {
+    controller.abort()
+    await browser?.close().catch(() => {})
+  }
+}
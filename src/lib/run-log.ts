@@ -14,9 +14,21 @@ export type LogSource =
   | 'system'
   | 'screenshot'
   | 'domdump'
+  | 'assert'
+  | 'failure'
+  | 'dialog'
 
 export type LogLevel = 'info' | 'warn' | 'error' | 'debug' | 'log'
 
+/** Run-log level of a CDP console call or log entry type (`warning`, `error`, …). */
+export const consoleLevel = (type: string | undefined): LogLevel => {
+  if (type === 'warning') return 'warn'
+  if (type === 'error') return 'error'
+  if (type === 'debug') return 'debug'
+  if (type === 'info') return 'info'
+  return 'log'
+}
+
 const sanitize = (value: unknown): string => {
   if (value === undefined) return ''
   if (value === null) return 'null'
@@ -0,0 +1,206 @@
+import { execFile } from 'node:child_process'
+import type { Dirent } from 'node:fs'
+import { readdir, stat } from 'node:fs/promises'
+import * as path from 'node:path'
+
+import { defaultArtifactDir } from './artifacts.js'
+import {
+  type LaunchFileData,
+  launchFileName,
+  poolManifestName,
+  readDriverActivity,
+  readLaunchFile,
+} from './launch-file.js'
+
+const CDP_PROBE_TIMEOUT_MS = 1_500
+
+export type RunState = 'running' | 'unreachable' | 'dead'
+
+export type RunStatus = {
+  runDir: string
+  launchFile: string
+  /** `running`: app alive and CDP answers; `unreachable`: alive but CDP is silent; `dead`: gone. */
+  state: RunState
+  pid: number | null
+  pidAlive: boolean
+  electronPid: number | null
+  electronAlive: boolean
+  cdpPort: number | null
+  cdpReachable: boolean
+  browser: string | null
+  windows: number | null
+  supervisorAlive: boolean
+  daemonAlive: boolean
+  /**
+   * Last time a driver or daemon worked on the run (or the app was launched); null when
+   * the run records none of these.
+   */
+  lastActivity: string | null
+  idleMs: number | null
+  launch: LaunchFileData
+}
+
+export const isAlive = (pid: number | null | undefined): boolean => {
+  if (!pid) return false
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else.
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Returns the command line of a live pid, or null when `ps` is unavailable (Windows).
+ */
+export const processCommand = async (pid: number): Promise<string | null> =>
+  new Promise((resolve) => {
+    if (process.platform === 'win32') return resolve(null)
+    execFile('ps', ['-o', 'command=', '-p', String(pid)], (err, stdout) => {
+      resolve(err ? '' : stdout.trim())
+    })
+  })
+
+/**
+ * Guards against pid reuse: a recorded pid only counts as ours when its command line still
+ * mentions the binary launchElectron spawned. The Electron child of a launcher (`npx`, `pnpm`, …)
+ * runs another binary, so for `electron` it may also mention Electron or the executable recorded
+ * in the fingerprint. Without `ps` (or a recorded command) we trust it.
+ */
+export const pidMatchesLaunch = async (
+  pid: number,
+  launch: LaunchFileData,
+  role: 'launcher' | 'electron' = 'launcher',
+): Promise<boolean> => {
+  if (!isAlive(pid)) return false
+  if (!launch.command) return true
+  const cmd = await processCommand(pid)
+  if (cmd === null) return true
+  if (cmd.includes(path.basename(launch.command))) return true
+  if (role === 'launcher') return false
+  const executable = launch.environment?.commandLine?.split(/\s+/)[0]
+  return /electron/i.test(cmd) || Boolean(executable && cmd.includes(executable))
+}
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), CDP_PROBE_TIMEOUT_MS)
+  try {
+    const res = await fetch(url, { signal: controller.signal })
+    return res.ok ? await res.json() : null
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+const probeCdp = async (
+  port: number | undefined,
+): Promise<{ reachable: boolean; browser: string | null; windows: number | null }> => {
+  if (!port) return { reachable: false, browser: null, windows: null }
+  const version = (await fetchJson(`http://127.0.0.1:${port}/json/version`)) as {
+    Browser?: string
+  } | null
+  if (!version) return { reachable: false, browser: null, windows: null }
+  const targets = (await fetchJson(`http://127.0.0.1:${port}/json/list`)) as Array<{
+    type?: string
+  }> | null
+  return {
+    reachable: true,
+    browser: version.Browser ?? null,
+    windows: Array.isArray(targets) ? targets.filter((t) => t.type === 'page').length : null,
+  }
+}
+
+const mtimeMs = async (filePath: string | undefined): Promise<number> => {
+  if (!filePath) return 0
+  try {
+    return (await stat(filePath)).mtimeMs
+  } catch {
+    return 0
+  }
+}
+
+const parseTime = (value: unknown): number =>
+  typeof value === 'string' ? Date.parse(value) || 0 : 0
+
+/**
+ * Latest activity recorded in launch.json and the run's `driver-activity` file. File mtimes
+ * don't count: the launcher and the app's own logging touch them without anyone driving the run.
+ */
+const lastActivityMs = (launch: LaunchFileData, driverActivity: string | null): number =>
+  Math.max(
+    parseTime(launch.launchedAt),
+    parseTime(launch.daemon?.startedAt),
+    parseTime(driverActivity),
+  )
+
+/**
+ * Reads a launch.json and reports whether the app it describes is still alive and reachable.
+ * Returns null when the file is missing or unreadable.
+ */
+export const readRunStatus = async (launchFile: string): Promise<RunStatus | null> => {
+  const launch = await readLaunchFile(launchFile)
+  if (!launch) return null
+
+  const pid = typeof launch.pid === 'number' ? launch.pid : null
+  const electronPid = typeof launch.electronPid === 'number' ? launch.electronPid : null
+  const pidAlive = pid ? await pidMatchesLaunch(pid, launch) : false
+  const electronAlive =
+    electronPid && electronPid !== pid
+      ? await pidMatchesLaunch(electronPid, launch, 'electron')
+      : pidAlive
+  const cdp =
+    pidAlive || electronAlive
+      ? await probeCdp(launch.cdpPort)
+      : { reachable: false, browser: null, windows: null }
+
+  const last = lastActivityMs(launch, await readDriverActivity(path.dirname(launchFile)))
+  const state: RunState =
+    !pidAlive && !electronAlive ? 'dead' : cdp.reachable ? 'running' : 'unreachable'
+
+  return {
+    runDir: path.dirname(launchFile),
+    launchFile,
+    state,
+    pid,
+    pidAlive,
+    electronPid,
+    electronAlive,
+    cdpPort: launch.cdpPort ?? null,
+    cdpReachable: cdp.reachable,
+    browser: cdp.browser,
+    windows: cdp.windows,
+    supervisorAlive: isAlive(launch.supervisorPid),
+    daemonAlive: isAlive(launch.daemon?.pid),
+    lastActivity: last ? new Date(last).toISOString() : null,
+    idleMs: last ? Math.max(0, Math.round(Date.now() - last)) : null,
+    launch,
+  }
+}
+
+/**
+ * Lists every `<artifactDir>/<prefix>/launch.json`, including the instances of launch pools
+ * (`<prefix>/instance-<n>/launch.json`), skipping `last-run` symlinks.
+ */
+export const findLaunchFiles = async (artifactDir = defaultArtifactDir): Promise<string[]> => {
+  let entries: Dirent[]
+  try {
+    entries = await readdir(artifactDir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+  const files: string[] = []
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue
+    const dir = path.join(artifactDir, entry.name)
+    const candidate = path.join(dir, launchFileName)
+    if (await mtimeMs(candidate)) files.push(candidate)
+    else if (await mtimeMs(path.join(dir, poolManifestName))) {
+      files.push(...(await findLaunchFiles(dir)))
+    }
+  }
+  return files.sort()
+}
@@ -0,0 +1,264 @@
+import { spawn } from 'node:child_process'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { CDPSession, Page } from 'playwright'
+
+import type { ScreencastOptions, ScreencastResult } from './types.js'
+
+const defaultFps = 4
+const defaultMaxDurationMs = 120_000
+const ffmpegTimeoutMs = 60_000
+
+type Frame = { file: string; ts: number; url: string }
+type ActionMark = { ts: number; action: string; detail?: string | undefined }
+type ScreencastFrameEvent = {
+  data: string
+  sessionId: number
+  metadata?: { timestamp?: number }
+}
+
+const frameName = (index: number) => `frame-${String(index).padStart(5, '0')}.jpg`
+
+/**
+ * Encodes the frames with ffmpeg when it is on PATH, holding each frame until the next one
+ * arrived. Resolves false when ffmpeg is missing or fails; the frames and viewer stay usable.
+ */
+const encodeVideo = async (dir: string, frames: Frame[], endTs: number): Promise<boolean> => {
+  if (frames.length === 0) return false
+  const lines: string[] = []
+  frames.forEach((frame, index) => {
+    const next = frames[index + 1]?.ts ?? endTs
+    lines.push(`file '${frame.file}'`, `duration ${Math.max(next - frame.ts, 1) / 1000}`)
+  })
+  // The concat demuxer ignores the last duration unless the final file is repeated.
+  lines.push(`file '${frames[frames.length - 1]?.file}'`)
+  await writeFile(join(dir, 'frames.txt'), `${lines.join('\n')}\n`, 'utf-8')
+
+  return new Promise((resolve) => {
+    const child = spawn(
+      'ffmpeg',
+      [
+        '-y',
+        '-loglevel',
+        'error',
+        '-f',
+        'concat',
+        '-safe',
+        '0',
+        '-i',
+        'frames.txt',
+        '-fps_mode',
+        'vfr',
+        '-vf',
+        'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+        '-pix_fmt',
+        'yuv420p',
+        'screencast.mp4',
+      ],
+      { cwd: dir, stdio: 'ignore' },
+    )
+    const timer = setTimeout(() => child.kill('SIGKILL'), ffmpegTimeoutMs)
+    child.once('error', () => {
+      clearTimeout(timer)
+      resolve(false)
+    })
+    child.once('exit', (code) => {
+      clearTimeout(timer)
+      resolve(code === 0)
+    })
+  })
+}
+
+/** Self-contained player: replays the frames at their recorded pace with action overlays. */
+const viewerHtml = (manifest: unknown) => `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>screencast</title>
+<style>
+  body { margin: 0; background: #111; color: #eee; font: 13px system-ui, sans-serif; }
+  #stage { position: relative; display: inline-block; }
+  #frame { display: block; max-width: 100vw; }
+  #overlay { position: absolute; left: 8px; bottom: 8px; padding: 4px 8px; background: rgba(0, 0, 0, .7); border-radius: 4px; white-space: pre; }
+  #bar { padding: 6px 8px; }
+</style>
+</head>
+<body>
+<div id="stage"><img id="frame" alt=""><div id="overlay"></div></div>
+<div id="bar"><button id="toggle">pause</button> <input id="seek" type="range" min="0" value="0"> <span id="clock"></span></div>
+<script>
+const data = ${JSON.stringify(manifest).replace(/</g, '\\u003c')};
+const img = document.getElementById('frame');
+const overlay = document.getElementById('overlay');
+const seek = document.getElementById('seek');
+const clock = document.getElementById('clock');
+const toggle = document.getElementById('toggle');
+seek.max = Math.max(data.frames.length - 1, 0);
+let index = 0;
+let timer = null;
+const show = (i) => {
+  const frame = data.frames[i];
+  if (!frame) return;
+  index = i;
+  seek.value = String(i);
+  img.src = frame.file;
+  const recent = data.actions.filter((a) => a.offsetMs <= frame.offsetMs && frame.offsetMs - a.offsetMs < 2000);
+  overlay.textContent = [(frame.offsetMs / 1000).toFixed(2) + 's ' + frame.url]
+    .concat(recent.map((a) => '> ' + a.action + (a.detail ? ' ' + a.detail : '')))
+    .join('\\n');
+  clock.textContent = frame.timestamp;
+};
+const play = () => {
+  const next = data.frames[index + 1];
+  if (!next) return stop();
+  timer = setTimeout(() => { show(index + 1); play(); }, next.offsetMs - data.frames[index].offsetMs);
+};
+const stop = () => { clearTimeout(timer); timer = null; toggle.textContent = 'play'; };
+toggle.onclick = () => {
+  if (timer) return stop();
+  if (index >= data.frames.length - 1) show(0);
+  toggle.textContent = 'pause';
+  play();
+};
+seek.oninput = () => { stop(); show(Number(seek.value)); };
+show(0);
+play();
+</script>
+</body>
+</html>
+`
+
+/**
+ * Records the driver's page through CDP `Page.startScreencast`. Chromium only pushes frames when
+ * something repaints, so frames are kept at most `fps` per second and each one is shown until the
+ * next arrives. `follow` moves the recording to another page; `mark` stamps driver actions so
+ * they can be lined up with frames in `screencast.json` and the HTML player.
+ */
+export class ScreencastRecorder {
+  readonly dir: string
+  #fps: number
+  #maxDurationMs: number
+  #opts: ScreencastOptions
+  #page: Page | null = null
+  #session: CDPSession | null = null
+  #frames: Frame[] = []
+  #actions: ActionMark[] = []
+  #pending: Set<Promise<void>> = new Set()
+  #lastFrameTs = 0
+  #startedTs = 0
+  /** When `maxDurationMs` ran out; the recording ends there even if `stop` comes later. */
+  #cappedAt: number | null = null
+  #maxTimer: NodeJS.Timeout | null = null
+  #onCapped: () => void
+
+  constructor(dir: string, opts: ScreencastOptions = {}, onCapped: () => void = () => {}) {
+    this.dir = dir
+    this.#opts = opts
+    this.#fps = opts.fps && opts.fps > 0 ? opts.fps : defaultFps
+    this.#maxDurationMs = opts.maxDurationMs ?? defaultMaxDurationMs
+    this.#onCapped = onCapped
+  }
+
+  async start(page: Page): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+    this.#startedTs = Date.now()
+    await this.#attach(page)
+    if (this.#maxDurationMs > 0) {
+      this.#maxTimer = setTimeout(() => {
+        this.#cappedAt = Date.now()
+        this.#detach().catch(() => {})
+        this.#onCapped()
+      }, this.#maxDurationMs)
+      this.#maxTimer.unref()
+    }
+  }
+
+  async #attach(page: Page) {
+    const session = await page.context().newCDPSession(page)
+    this.#page = page
+    this.#session = session
+    session.on('Page.screencastFrame', (event) => this.#onFrame(session, event))
+    await session.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: this.#opts.quality ?? 70,
+      ...(this.#opts.maxWidth ? { maxWidth: this.#opts.maxWidth } : {}),
+      ...(this.#opts.maxHeight ? { maxHeight: this.#opts.maxHeight } : {}),
+    })
+  }
+
+  async #detach() {
+    const session = this.#session
+    this.#session = null
+    if (!session) return
+    await session.send('Page.stopScreencast').catch(() => {})
+    await session.detach().catch(() => {})
+  }
+
+  #onFrame(session: CDPSession, event: ScreencastFrameEvent) {
+    session.send('Page.screencastFrameAck', { sessionId: event.sessionId }).catch(() => {})
+    if (session !== this.#session || this.#cappedAt !== null) return
+    const ts = event.metadata?.timestamp ? Math.round(event.metadata.timestamp * 1000) : Date.now()
+    if (this.#frames.length > 0 && ts - this.#lastFrameTs < 1000 / this.#fps) return
+    this.#lastFrameTs = ts
+    const frame = { file: frameName(this.#frames.length + 1), ts, url: this.#page?.url() ?? '' }
+    this.#frames.push(frame)
+    const write = writeFile(join(this.dir, frame.file), Buffer.from(event.data, 'base64'))
+      .catch(() => {})
+      .finally(() => this.#pending.delete(write))
+    this.#pending.add(write)
+  }
+
+  /** Moves the recording to `page` (after a window switch). */
+  async follow(page: Page): Promise<void> {
+    if (page === this.#page || this.#cappedAt !== null) return
+    await this.#detach()
+    this.mark('switch-window', page.url())
+    await this.#attach(page)
+  }
+
+  mark(action: string, detail?: string): void {
+    this.#actions.push({ ts: Date.now(), action, detail })
+  }
+
+  /** Stops capturing and writes `screencast.json`, `screencast.html` and, with ffmpeg, an mp4. */
+  async stop(): Promise<ScreencastResult> {
+    if (this.#maxTimer) clearTimeout(this.#maxTimer)
+    await this.#detach()
+    await Promise.allSettled([...this.#pending])
+    const endTs = this.#cappedAt ?? Date.now()
+    const origin = this.#frames[0]?.ts ?? this.#startedTs
+    const manifest = {
+      fps: this.#fps,
+      startedAt: new Date(this.#startedTs).toISOString(),
+      capped: this.#cappedAt !== null,
+      frames: this.#frames.map((frame) => ({
+        file: frame.file,
+        timestamp: new Date(frame.ts).toISOString(),
+        offsetMs: frame.ts - origin,
+        url: frame.url,
+      })),
+      actions: this.#actions.map((mark) => ({
+        timestamp: new Date(mark.ts).toISOString(),
+        offsetMs: mark.ts - origin,
+        action: mark.action,
+        ...(mark.detail ? { detail: mark.detail } : {}),
+      })),
+    }
+    const manifestPath = join(this.dir, 'screencast.json')
+    const htmlPath = join(this.dir, 'screencast.html')
+    await writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8')
+    await writeFile(htmlPath, viewerHtml(manifest), 'utf-8')
+    const video =
+      this.#opts.video !== false && (await encodeVideo(this.dir, this.#frames, endTs))
+        ? join(this.dir, 'screencast.mp4')
+        : null
+    return {
+      dir: this.dir,
+      frames: this.#frames.length,
+      durationMs: endTs - this.#startedTs,
+      manifest: manifestPath,
+      html: htmlPath,
+      video,
+    }
+  }
+}
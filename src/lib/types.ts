@@ -1,20 +1,417 @@
-import type { Page } from 'playwright'
+import type { Page, Request, Route } from 'playwright'
 
 export type ConnectOptions = {
   wsUrl: string
   pick?: { titleContains?: string | undefined; urlIncludes?: string | undefined } | undefined
   runLogPath?: string | undefined
+  /**
+   * Node inspector WebSocket of the Electron main process; enables `evalInMain`. Defaults to the
+   * `inspectorUrl` recorded in the run's launch.json when its `wsUrl` matches.
+   */
+  inspectorUrl?: string | undefined
+  /** Record renderer traffic as HAR from the moment the driver connects (default off). */
+  recordNetwork?: boolean | NetworkRecordOptions | undefined
+  /**
+   * Capture a `failures/<n>/` bundle in the run dir when `click`, `type` or `waitText` fails
+   * with `E_SELECTOR` / `E_WAIT_TIMEOUT` (default off). See `FailureBundle`.
+   */
+  failureBundles?: boolean | undefined
 }
 
+export type NetworkRecordOptions = {
+  /** Output file (default `<run-dir>/network.har`, next to run.log). */
+  path?: string | undefined
+  /** Request/response bodies beyond this many bytes are cut off (default 65536). */
+  maxBodyBytes?: number | undefined
+  /** Only record URLs matching one of these (substring or RegExp). */
+  include?: Array<string | RegExp> | undefined
+  /** Skip URLs matching any of these (substring or RegExp). */
+  exclude?: Array<string | RegExp> | undefined
+}
+
+export type NetworkRecording = { path: string; entries: number }
+
+/** Canned answer for a mocked request. */
+export type MockResponse = {
+  /** HTTP status (default 200). */
+  status?: number | undefined
+  headers?: Record<string, string> | undefined
+  /** Strings are sent as-is; anything else is serialized as JSON. */
+  body?: unknown
+  /** File whose contents become the body (content type inferred from the extension). */
+  bodyFile?: string | undefined
+}
+
+/** One entry of a mock file (`[rule, …]` or `{ "mocks": [rule, …] }`). */
+export type MockRule = MockResponse & {
+  /** Playwright URL glob matched against the full URL. */
+  url?: string | undefined
+  /** RegExp source matched against the full URL; used instead of `url`. */
+  urlRegex?: string | undefined
+  urlRegexFlags?: string | undefined
+  /** Only answer this HTTP method (default: any). */
+  method?: string | undefined
+}
+
+export type TraceOptions = {
+  /** Output file (default `<run-dir>/trace.zip`, next to run.log). */
+  path?: string | undefined
+  /** Screenshots per action (default true). */
+  screenshots?: boolean | undefined
+  /** DOM snapshots per action (default true). */
+  snapshots?: boolean | undefined
+  /** Embed source files of the calling code (default true). */
+  sources?: boolean | undefined
+  /** Name shown in the trace viewer. */
+  title?: string | undefined
+}
+
+export type ScreencastOptions = {
+  /** Frame directory (default `<run-dir>/screencast`). */
+  dir?: string | undefined
+  /** Upper bound on kept frames per second (default 4); idle pages produce fewer. */
+  fps?: number | undefined
+  /** Capture stops by itself after this long (default 120000, 0 disables the cap). */
+  maxDurationMs?: number | undefined
+  /** JPEG quality 0–100 (default 70). */
+  quality?: number | undefined
+  maxWidth?: number | undefined
+  maxHeight?: number | undefined
+  /** Also encode `screencast.mp4` when ffmpeg is on PATH (default true). */
+  video?: boolean | undefined
+}
+
+export type ScreencastResult = {
+  dir: string
+  frames: number
+  durationMs: number
+  /** `screencast.json`: frames and driver actions with timestamps and offsets. */
+  manifest: string
+  /** `screencast.html`: player with action overlays. */
+  html: string
+  /** `screencast.mp4`, or null without ffmpeg. */
+  video: string | null
+}
+
+export type RouteHandler = (route: Route, request: Request) => Promise<void> | void
+
+export type DiscoverySource = 'devtools-active-port' | 'process' | 'port-scan'
+
+export type DiscoverOptions = {
+  /** Inclusive CDP port range to probe (default 9222–9229); `false` skips the scan. */
+  ports?: [number, number] | false | undefined
+  /** Extra user-data dirs to check for a DevToolsActivePort file. */
+  userDataDirs?: string[] | undefined
+  /** Directories whose children are user-data dirs (default: the platform's app-data dir). */
+  userDataRoots?: string[] | undefined
+  /** Also return Chrome/Chromium endpoints (default false: Electron only). */
+  includeNonElectron?: boolean | undefined
+}
+
+export type DiscoveredApp = {
+  wsUrl: string
+  port: number
+  /** From the user agent, else the user-data dir or executable name. */
+  appName: string | null
+  pid: number | null
+  userDataDir: string | null
+  browser: string | null
+  electronVersion: string | null
+  windows: { title: string; url: string }[]
+  /** How the endpoint was found; an app found several ways lists each. */
+  sources: DiscoverySource[]
+}
+
+/**
+ * Frame a selector is resolved in. `name` and `url` match any iframe in the window (nested ones
+ * included); `selector` is a CSS selector for the `<iframe>` element. With `webview`, the selector
+ * runs in a `<webview>` guest picked by `url` (the first one otherwise).
+ */
+export type FrameTarget = {
+  name?: string | undefined
+  /** Substring of the frame's URL. */
+  url?: string | undefined
+  selector?: string | undefined
+  /**
+   * Supported by click, type, hover, press, dblclick, rightClick (no `modifiers` / `position`),
+   * scrollIntoView, wheel and getDom. upload, dragTo, `mouse.move({ relativeTo })`,
+   * ariaSnapshot and expect reject it with `E_SELECTOR`.
+   */
+  webview?: boolean | undefined
+}
+
+/** A `<webview>` guest, as enumerated by `Driver.listWebviews()`. */
+export type WebviewInfo = { id: string; url: string; title: string }
+
+/** Selector hints gathered from one document by `listSelectors`. */
+export type SelectorList = {
+  testIds: string[]
+  roles: { role: string; name: string | null; selector: string }[]
+  texts: { text: string; selector: string }[]
+}
+
+/** Element the page does have that looks like what a failed selector asked for. */
+export type NearMiss = {
+  selector: Selector
+  /** The test id, role name or text that resembled the selector. */
+  matched: string
+  /** 0–1 similarity; 1 means the value matched but the element was not actionable. */
+  score: number
+}
+
+/**
+ * Diagnostics captured when an action fails, attached as `error.details.bundle`. File paths are
+ * null when that part could not be captured.
+ */
+export type FailureBundle = {
+  /** `<run-dir>/failures/<n>`. */
+  dir: string
+  screenshot: string | null
+  /** `dumpDOM` output. */
+  dom: string | null
+  /** `listSelectors` output as JSON. */
+  selectors: string | null
+  /** failure.json: everything below plus the action, selector and error message. */
+  summary: string
+  url: string
+  title: string
+  /**
+   * `webview` when the selector targets a webview guest: dom, selectors, url, title and
+   * candidates come from the guest, the screenshot shows the host window around it.
+   */
+  scope: 'page' | 'webview'
+  candidates: NearMiss[]
+}
+
+/** Where `dumpDOM` / `listSelectors` look beyond the main document. */
+export type DomScanOptions = {
+  /** Also cover iframes and webview guests. */
+  frames?: boolean | undefined
+  /** Also look inside open shadow roots. */
+  shadow?: boolean | undefined
+}
+
+/** Substring (or whole string with `exact`) or a regular expression; `{ regex }` is the JSON form. */
+export type TextMatch = string | RegExp | { regex: string; flags?: string | undefined }
+
+/**
+ * Every locator field that is set must match (AND). `within` scopes the search to a parent,
+ * `has` / `hasText` keep only matches containing that element or text. Without `nth` the first
+ * match is used, unless `strict` is set, in which case more than one match is an error.
+ */
 export type Selector = {
+  /** Element ref handed out by `observe()` (e.g. `e12`). */
+  ref?: string | undefined
+  /** Resolve inside an iframe or webview instead of the top document. */
+  frame?: FrameTarget | undefined
   testid?: string | undefined
-  role?: { role: Parameters<Page['getByRole']>[0]; name?: string | undefined } | undefined
-  text?: string | undefined
+  role?:
+    | {
+        role: Parameters<Page['getByRole']>[0]
+        name?: TextMatch | undefined
+        /** Overrides the selector-wide `exact` for the name. */
+        exact?: boolean | undefined
+      }
+    | undefined
+  text?: TextMatch | undefined
+  /** Form control by its `<label>`, `aria-labelledby` or `aria-label`. */
+  label?: TextMatch | undefined
+  placeholder?: TextMatch | undefined
+  altText?: TextMatch | undefined
+  /** `title` attribute. */
+  title?: TextMatch | undefined
   css?: string | undefined
+  xpath?: string | undefined
+  /** Whole-string, case-sensitive matching for text, label, placeholder, alt text, title and role name. */
+  exact?: boolean | undefined
+  within?: Selector | undefined
+  has?: Selector | undefined
+  hasText?: TextMatch | undefined
   nth?: number | undefined
+  strict?: boolean | undefined
   timeoutMs?: number | undefined
 }
 
+/** One entry of the application or a context menu, as read from the main process. */
+export type MenuItemInfo = {
+  /** Label with mnemonic `&` markers as Electron stores them. */
+  label: string
+  type: 'normal' | 'separator' | 'submenu' | 'checkbox' | 'radio' | 'header' | 'palette'
+  enabled: boolean
+  visible: boolean
+  id?: string
+  role?: string
+  accelerator?: string
+  /** Checkbox and radio items only. */
+  checked?: boolean
+  submenu?: MenuItemInfo[]
+}
+
+/** Canned answer for the next stubbed dialog of that kind; `canceled` wins over paths. */
+export type DialogResponse =
+  | { dialog: 'open'; filePaths?: string[] | undefined; canceled?: boolean | undefined }
+  | { dialog: 'save'; filePath?: string | undefined; canceled?: boolean | undefined }
+  | { dialog: 'message'; response?: number | undefined; checkboxChecked?: boolean | undefined }
+
+/** One `dialog.*` call seen by the stubs. */
+export type DialogCall = {
+  dialog: 'open' | 'save' | 'message' | 'error'
+  /** e.g. `showOpenDialog`, `showMessageBoxSync`. */
+  method: string
+  /** The options the app passed (title and content for `showErrorBox`). */
+  options: unknown
+  /** What the stub returned. */
+  result?: unknown
+  /** Nothing was queued for it, so the call threw / rejected. */
+  unexpected?: boolean
+  ts: number
+}
+
+/** How IPC payloads and results are written to run.log. */
+export type IpcTraceOptions = {
+  /** JSON longer than this is cut off (default 1024 characters). */
+  maxPayloadChars?: number | undefined
+  /** Object keys logged as `[redacted]`, case-insensitive; replaces the default list. */
+  redactKeys?: string[] | undefined
+}
+
+/** Which main-process IPC hooks `traceMainIpc` could install. */
+export type MainIpcHooks = {
+  /** `ipcMain.handle` calls are traced. */
+  handles: boolean
+  /**
+   * Handlers registered before the hooks are traced too, and channels can be stubbed. Needs
+   * Electron's internal handler map (`ipcMain._invokeHandlers`, Electron 7+); without it only
+   * handlers registered later are traced.
+   */
+  existingHandles: boolean
+  /** `webContents.send` is traced. */
+  sends: boolean
+}
+
+/** What a stubbed `ipcMain.handle` channel answers; `error` makes the `invoke` reject. */
+export type IpcStubResponse = { result?: unknown; error?: string | undefined }
+
+export type MouseButton = 'left' | 'right' | 'middle'
+
+export type KeyModifier = 'Alt' | 'Control' | 'ControlOrMeta' | 'Meta' | 'Shift'
+
+/** Extra fields `dblclick` / `rightClick` take next to the selector. */
+export type PointerOptions = {
+  /** Default `left` (`rightClick` always uses `right`). */
+  button?: MouseButton | undefined
+  /** Keys held while clicking. */
+  modifiers?: KeyModifier[] | undefined
+  /** Point relative to the element's top-left corner (default: its center). */
+  position?: { x: number; y: number } | undefined
+}
+
+export type DragOptions = {
+  /** Where to grab the source, relative to its top-left corner (default: its center). */
+  sourcePosition?: { x: number; y: number } | undefined
+  /** Where to drop on the target, relative to its top-left corner (default: its center). */
+  targetPosition?: { x: number; y: number } | undefined
+}
+
+/**
+ * Low-level mouse at viewport coordinates, for canvases, splitters and custom gestures. The
+ * pressed button carries over between calls on the same driver.
+ */
+export interface DriverMouse {
+  /**
+   * Moves to (`x`, `y`): viewport CSS pixels, or relative to the top-left corner of `relativeTo`
+   * (scrolled into view first). `steps` sends intermediate moves. Resolves to the viewport point.
+   */
+  move(
+    x: number,
+    y: number,
+    opts?: { relativeTo?: Selector | undefined; steps?: number | undefined },
+  ): Promise<{ x: number; y: number }>
+  down(opts?: { button?: MouseButton | undefined; clickCount?: number | undefined }): Promise<void>
+  up(opts?: { button?: MouseButton | undefined; clickCount?: number | undefined }): Promise<void>
+}
+
+export type AssertionName =
+  | 'toBeVisible'
+  | 'toBeHidden'
+  | 'toHaveText'
+  | 'toContainText'
+  | 'toHaveCount'
+  | 'toHaveAttribute'
+  | 'toHaveValue'
+  | 'toBeEnabled'
+  | 'toBeChecked'
+
+/** What a passing assertion saw; failures carry the same fields in `E_ASSERT` details. */
+export type AssertionResult = {
+  actual: unknown
+  /** Elements the selector matched (ignoring `nth`) on the last check. */
+  count: number
+  elapsedMs: number
+}
+
+/**
+ * Retrying assertions returned by `Driver.expect(sel)`. Each one re-checks until it passes or
+ * its `timeoutMs` (default 5000) runs out, then throws `E_ASSERT`. Text is whitespace-normalized;
+ * strings must match whole for `toHaveText` / `toHaveValue` / `toHaveAttribute`.
+ */
+export interface Expectation {
+  toBeVisible(opts?: { timeoutMs?: number }): Promise<AssertionResult>
+  toBeHidden(opts?: { timeoutMs?: number }): Promise<AssertionResult>
+  toHaveText(expected: TextMatch, opts?: { timeoutMs?: number }): Promise<AssertionResult>
+  toContainText(expected: TextMatch, opts?: { timeoutMs?: number }): Promise<AssertionResult>
+  toHaveCount(expected: number, opts?: { timeoutMs?: number }): Promise<AssertionResult>
+  /** Without `expected`, only checks that the attribute is present. */
+  toHaveAttribute(
+    name: string,
+    expected?: TextMatch,
+    opts?: { timeoutMs?: number },
+  ): Promise<AssertionResult>
+  toHaveValue(expected: TextMatch, opts?: { timeoutMs?: number }): Promise<AssertionResult>
+  toBeEnabled(opts?: { timeoutMs?: number }): Promise<AssertionResult>
+  /** `checked: false` asserts the element is unchecked. */
+  toBeChecked(opts?: { checked?: boolean; timeoutMs?: number }): Promise<AssertionResult>
+}
+
+/** An interactive element as returned by `Driver.observe()`. */
+export type ObservedElement = {
+  /** Stable until the node is removed; pass as `{ ref }` to any action. */
+  ref: string
+  role: string
+  name: string
+  tag: string
+  /** Viewport-relative CSS pixels. */
+  box: { x: number; y: number; width: number; height: number }
+  disabled?: boolean
+  checked?: boolean
+  /** Current value of inputs, textareas and selects (never for password fields). */
+  value?: string
+}
+
+/** One node of `Driver.ariaSnapshot()`; states are only present when set. */
+export type AriaNode = {
+  /** ARIA role (implicit roles included), or `text` for a bare text run. */
+  role: string
+  /** Accessible name. */
+  name?: string
+  /** Current value of text inputs, comboboxes, spinbuttons and sliders. */
+  value?: string
+  /** Text content of leaf elements and `text` runs. */
+  text?: string
+  checked?: boolean | 'mixed'
+  disabled?: boolean
+  expanded?: boolean
+  pressed?: boolean | 'mixed'
+  selected?: boolean
+  /** Heading level. */
+  level?: number
+  /** Extra attributes Playwright reports, e.g. `url` for links. */
+  props?: Record<string, string>
+  /** Resolves back to this element through `buildLocator` (`nth` counts across the snapshot's frame, which the selector carries). */
+  selector: Selector
+  children?: AriaNode[]
+}
+
 export type ArtifactOptions = {
   artifactDir?: string | undefined
   artifactPrefix?: string | undefined
@@ -35,8 +432,163 @@ export type LaunchOptions = {
   cdpPort?: number | undefined
   /** Timeout for CDP readiness. */
   timeoutMs?: number | undefined
+  /**
+   * Start the main process with `--inspect=<port>` (random port for `true`) so drivers can run
+   * code in it via `evalInMain`. The port is also exported as `E2E_INSPECT_PORT`.
+   */
+  inspect?: boolean | number | undefined
+  /**
+   * With `inspect`, stream main-process `console.*` and uncaught exceptions into run.log from this
+   * process until `quit` (default true), also while no driver is attached. The tap keeps this
+   * process alive until `quit` or the app exits, so short-lived launchers turn it off. Without
+   * it, main console after startup only reaches run.log while a driver is connected.
+   */
+  tapMainConsole?: boolean | undefined
+  /**
+   * X display handling on Linux: `auto` (default) starts Xvfb for headed runs when no `DISPLAY`
+   * is set, `xvfb` always starts one, `inherit` leaves the environment alone.
+   */
+  display?: 'auto' | 'xvfb' | 'inherit' | undefined
+  /**
+   * Isolated userData profile under `<run-dir>/profile` (default on). The path is exposed to the
+   * app as `E2E_USER_DATA_DIR`; pass `false` to let the app use its normal profile.
+   */
+  profile?: boolean | ProfileOptions | undefined
+  /** Keep watching the app after CDP is ready; `true` uses the defaults below. */
+  supervise?: boolean | SuperviseOptions | undefined
+  /** Probes that must all pass after CDP is up before launchElectron resolves. */
+  ready?: ReadyProbe | ReadyProbe[] | undefined
+  /** Default timeout per readiness probe (default 30_000). */
+  readyTimeoutMs?: number | undefined
 } & ArtifactOptions
 
+/**
+ * A readiness condition checked after CDP is reachable. Each probe may override `timeoutMs`.
+ */
+export type ReadyProbe = (
+  | {
+      /** Matches a stdout/stderr line (including lines printed before CDP was up). */
+      log: RegExp | string
+      source?: 'stdout' | 'stderr' | undefined
+    }
+  | { window: NonNullable<ConnectOptions['pick']> }
+  | {
+      /** Global(s) in the renderer main world; `true` checks `__eatBridgeReady__` / `__eatTestHarness__` / `eatBridge`. */
+      bridge: true | string | string[]
+    }
+  | {
+      /** Evaluated in the renderer main world (`window` picks the page); passes once truthy. */
+      predicate: (() => unknown) | string
+      window?: ConnectOptions['pick']
+    }
+) & { timeoutMs?: number | undefined }
+
+export type ProfileOptions = {
+  /** Directory copied into the fresh profile (a fixture dir or a kept `<run-dir>/profile`). */
+  seedFrom?: string | undefined
+  /** Keep the profile on `quit()` instead of deleting it (default false). */
+  keep?: boolean | undefined
+  /** Also append `--user-data-dir=<dir>` to the command's args (default false). */
+  userDataDirArg?: boolean | undefined
+}
+
+export type SuperviseOptions = {
+  /** How many times to respawn the app after a crash (default 0: record only). */
+  maxRestarts?: number | undefined
+  /** Interval for the rolling screenshot/DOM capture used as crash artifacts (default 2000, 0 disables). */
+  snapshotIntervalMs?: number | undefined
+}
+
+export type LaunchLifecycleEvent =
+  | {
+      type: 'crash'
+      code: number | null
+      signal: NodeJS.Signals | null
+      pid: number
+      crashCount: number
+      willRestart: boolean
+      artifacts: { dir: string; screenshot?: string | undefined; dom?: string | undefined }
+    }
+  | { type: 'exit'; code: number | null; signal: NodeJS.Signals | null; pid: number }
+  | {
+      type: 'restart'
+      attempt: number
+      wsUrl: string
+      pid: number
+      electronPid?: number | undefined
+    }
+  | { type: 'restart-failed'; attempt: number; error: Error }
+
+export type LaunchPoolOptions = LaunchOptions & {
+  /** Number of instances to start concurrently. */
+  size: number
+  /** Per-instance overrides (e.g. a different `env` per shard), merged over the shared options. */
+  instance?: ((index: number) => Partial<LaunchOptions>) | undefined
+}
+
+export type PoolManifestEntry = {
+  index: number
+  wsUrl: string
+  pid: number
+  electronPid: number | null
+  cdpPort: number
+  artifactDir: string
+  runLogPath: string
+  launchFile: string | null
+  userDataDir: string | null
+}
+
+/** Written to `<artifactDir>/<pool-prefix>/pool.json`; each instance's launch.json stays authoritative. */
+export type PoolManifest = {
+  id: string
+  dir: string
+  createdAt: string
+  size: number
+  instances: PoolManifestEntry[]
+}
+
+export type LaunchPool = {
+  id: string
+  /** `<artifactDir>/<artifactPrefix>`; instances live in `instance-<n>/` below it. */
+  dir: string
+  manifestPath: string
+  manifest: PoolManifest
+  instances: LaunchResult[]
+  /** Quits every instance concurrently; rejects with the first failure after trying them all. */
+  quitAll: (opts?: QuitOptions) => Promise<void>
+}
+
+export type QuitOptions = {
+  /**
+   * Ask the app to `app.quit()` first (via the main-process inspector, else CDP `Browser.close`)
+   * so `before-quit` / `will-quit` run; signals are only sent if it hasn't exited in time.
+   */
+  graceful?: boolean | undefined
+  /** How long to wait for a graceful exit before escalating (default 5000). */
+  timeoutMs?: number | undefined
+}
+
+/** What a run was launched with; recorded in launch.json for post-mortems. */
+export type EnvironmentFingerprint = {
+  /** `/json/version` of the app (null when it couldn't be read). */
+  versions: {
+    browser: string | null
+    protocol: string | null
+    v8: string | null
+    userAgent: string | null
+    electron: string | null
+    chrome: string | null
+  } | null
+  /** Resolved command line of the Electron process (POSIX only); secret-looking flag values masked. */
+  commandLine: string | null
+  /** `LaunchOptions.env`, with credential-looking values masked as `***`. */
+  envOverrides: Record<string, string>
+  os: { platform: string; release: string; arch: string }
+  node: string
+  /** Nearest package.json of the app under test. */
+  app: { name: string | null; version: string | null; packageJson: string } | null
+}
+
 export type LaunchResult = {
   wsUrl: string
   cdpPort: number
@@ -46,7 +598,19 @@ export type LaunchResult = {
   runLogPath: string
   /** Persisted launch metadata (optional helper for CLIs). */
   launchFile?: string | undefined
-  quit: () => Promise<void>
+  /** Node inspector WebSocket of the main process when launched with `inspect`. */
+  inspectorUrl?: string | undefined
+  /** X display the app was started on (e.g. `:99` when Xvfb was provisioned). */
+  display?: string | undefined
+  /** Isolated profile directory handed to the app, unless `profile: false`. */
+  userDataDir?: string | undefined
+  /** Versions, command line and env overrides of the live instance (also in launch.json). */
+  environment: EnvironmentFingerprint
+  /** Number of supervised restarts so far; `wsUrl`/`pid`/`electronPid` track the live instance. */
+  restarts: number
+  /** Subscribe to supervised lifecycle events (crash/exit/restart); returns an unsubscribe fn. */
+  onLifecycle: (cb: (event: LaunchLifecycleEvent) => void) => () => void
+  quit: (opts?: QuitOptions) => Promise<void>
 }
 
 export type ConsoleEvent = { type: string; text: string; ts: number }
@@ -71,17 +635,82 @@ export interface Driver {
   click(sel: Selector): Promise<void>
   type(sel: Selector & { value: string; clearFirst?: boolean | undefined }): Promise<void>
   press(key: string, sel?: Selector | undefined): Promise<void>
+  dblclick(sel: Selector & PointerOptions): Promise<void>
+  rightClick(sel: Selector & Omit<PointerOptions, 'button'>): Promise<void>
   hover(sel: Selector): Promise<void>
+  dragTo(source: Selector, target: Selector, opts?: DragOptions | undefined): Promise<void>
+  mouse: DriverMouse
+  /** Dispatches a wheel event, over the center of `sel` when given (else at the current point). */
+  wheel(
+    delta: { deltaX?: number | undefined; deltaY?: number | undefined },
+    sel?: Selector | undefined,
+  ): Promise<void>
   scrollIntoView(sel: Selector): Promise<void>
   upload(sel: Selector, filePath: string): Promise<void>
+  /**
+   * The application menu (or, with `context`, the context menu currently open) from the main
+   * process; empty when there is none. Needs the main-process inspector.
+   */
+  getMenu(opts?: { context?: boolean | undefined }): Promise<MenuItemInfo[]>
+  /**
+   * Replaces Electron's `dialog` methods in the main process with stubs (once) and queues
+   * `responses`. Dialogs with nothing queued throw in the app. Resolves to the queue length.
+   */
+  stubDialogs(responses?: DialogResponse[] | undefined): Promise<{ pending: number }>
+  getDialogCalls(): Promise<{ calls: DialogCall[]; pending: DialogResponse[] }>
+  /** Puts the real `dialog` methods back; false when no stubs were installed. */
+  restoreDialogs(): Promise<boolean>
+  /**
+   * Traces main-process IPC too: `ipcMain.handle` / `ipcMain.on` handlers and
+   * `webContents.send`, logged under the same ids as the renderer side. `opts` also applies to
+   * renderer-side payloads. Needs the main-process inspector. Handlers registered on
+   * `webContents.ipc` / `webFrameMain.ipc` are not traced.
+   */
+  traceMainIpc(opts?: IpcTraceOptions | undefined): Promise<MainIpcHooks>
+  /**
+   * Answers `ipcRenderer.invoke(channel)` with `response` instead of the app's handler (or when
+   * there is none) until the returned function or `clearIpcStubs` removes it. Throws
+   * `E_INTERNAL` when Electron has no internal handler map (see `MainIpcHooks`).
+   */
+  stubIpcHandle(channel: string, response: IpcStubResponse): Promise<() => Promise<void>>
+  /** Removes the stub for `channel`, or all of them; resolves how many were removed. */
+  clearIpcStubs(channel?: string | undefined): Promise<number>
+  /**
+   * Clicks a menu item by label path (`'File > Export > PDF'` or `['File', 'Export', 'PDF']`);
+   * steps may also name an item's `id` or `role`.
+   */
+  clickMenu(
+    path: string | string[],
+    opts?: { context?: boolean | undefined },
+  ): Promise<{ path: string[]; checked?: boolean }>
   waitText(text: string, timeoutMs?: number | undefined): Promise<void>
   screenshot(path: string, fullPage?: boolean | undefined): Promise<void>
   dumpOuterHTML(truncateAt?: number | undefined): Promise<string>
-  listSelectors(max?: number | undefined): Promise<{
-    testIds: string[]
-    roles: { role: string; name: string | null; selector: string }[]
-    texts: { text: string; selector: string }[]
-  }>
+  /** Assertions against `sel`; `timeoutMs` sets the default for each of them. */
+  expect(sel: Selector, opts?: { timeoutMs?: number | undefined }): Expectation
+  /** Reads `innerHTML` or `textContent` of the element `sel` resolves to. */
+  getDom(sel: Selector, as: 'innerHTML' | 'textContent'): Promise<string>
+  /** `<webview>` guests of the app; target one with `frame: { webview: true, url }`. */
+  listWebviews(): Promise<WebviewInfo[]>
+  /** Runs `fn` in a webview guest (picked by `url` substring, else the first one). */
+  evalInWebview<T = unknown>(
+    pick: { url?: string | undefined },
+    fn: (...args: never[]) => T,
+    arg?: unknown,
+  ): Promise<Awaited<T>>
+  /** Tags visible interactive elements with refs usable as `{ ref }` selectors. */
+  observe(opts?: { max?: number | undefined }): Promise<ObservedElement[]>
+  /** Accessibility tree of the page (or of `sel`) with a ready-to-use selector per node. */
+  ariaSnapshot(sel?: Selector | undefined): Promise<AriaNode[]>
+  /** With `frames`, each iframe and webview guest gets its own entry under `frames`. */
+  listSelectors(
+    max?: number | undefined,
+    opts?: DomScanOptions,
+  ): Promise<
+    SelectorList & {
+      frames?: Array<SelectorList & { name: string; url: string; webview?: boolean }>
+    }
+  >
   waitForWindow(
     timeoutMs?: number | undefined,
     pick?: ConnectOptions['pick'],
@@ -90,6 +719,8 @@ export interface Driver {
   evalInRendererMainWorld<T = unknown>(fn: (...args: unknown[]) => T, arg?: unknown): Promise<T>
   evalInIsolatedWorld<T = unknown>(fn: (...args: unknown[]) => T, arg?: unknown): Promise<T>
   evalInPreload<T = unknown>(fn: (...args: unknown[]) => T, arg?: unknown): Promise<T>
+  /** Runs `fn` in the Electron main process (Node) via the inspector; `require` is in scope. */
+  evalInMain<T = unknown>(fn: (...args: unknown[]) => T, arg?: unknown): Promise<Awaited<T>>
   onRendererReload(cb: () => void): () => void
   onPreloadReady(cb: () => void): () => void
   waitForBridge(timeoutMs?: number): Promise<void>
@@ -109,10 +740,36 @@ export interface Driver {
     text: string,
     opts?: { timeoutMs?: number; perAttemptTimeoutMs?: number },
   ): Promise<void>
+  /** With `frames`, iframe and webview documents are appended after `<!-- frame … -->` markers. */
   dumpDOM(
     selector?: string,
     truncateAt?: number,
+    opts?: DomScanOptions,
   ): Promise<{ html: string; url: string; title: string }>
   getRendererInspectorUrl(): Promise<string>
+  /** Starts writing renderer traffic of every attached page to a HAR file. */
+  startNetworkRecording(opts?: NetworkRecordOptions): Promise<{ path: string }>
+  /** Flushes the HAR file; resolves null when no recording is active. */
+  stopNetworkRecording(): Promise<NetworkRecording | null>
+  /**
+   * Intercepts renderer requests matching `pattern` in every attached window; resolves to a
+   * function that removes the route.
+   */
+  route(
+    pattern: string | RegExp,
+    handler: RouteHandler | MockResponse,
+  ): Promise<() => Promise<void>>
+  /** Registers the rules of a JSON mock file (path) or an inline rule list. */
+  loadMocks(source: string | MockRule[]): Promise<() => Promise<void>>
+  /** Removes every route added via `route` / `loadMocks`; resolves to how many were removed. */
+  clearRoutes(): Promise<number>
+  /** Starts a Playwright trace of the current window's browser context. */
+  startTracing(opts?: TraceOptions): Promise<{ path: string }>
+  /** Writes the trace zip; resolves null when no trace is running. */
+  stopTracing(): Promise<{ path: string } | null>
+  /** Records the active window via CDP screencast; follows `switchWindow` / `waitForWindow`. */
+  startScreencast(opts?: ScreencastOptions): Promise<{ dir: string }>
+  /** Finalizes the screencast artifacts; resolves null when nothing is recording. */
+  stopScreencast(): Promise<ScreencastResult | null>
   close(): Promise<void>
 }
@@ -0,0 +1,214 @@
+import type { CDPSession } from 'playwright'
+
+import { locateInPage, type PageAction, type PageQuery } from './dom-scan.js'
+import { NodeInspectorSession } from './node-inspector.js'
+import type { MouseButton, Selector, WebviewInfo } from './types.js'
+
+const defaultTimeoutMs = 10_000
+const pollMs = 100
+
+/** `Input.dispatchKeyEvent` fields of the named keys `press` understands in webviews. */
+const namedKeys: Record<string, { code: string; keyCode: number; text?: string }> = {
+  Enter: { code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  Space: { code: 'Space', keyCode: 32, text: ' ' },
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 },
+}
+
+/** Named keys and single characters; combinations like `Control+A` are not supported. */
+const keyEvent = (key: string): Record<string, unknown> => {
+  const named = namedKeys[key]
+  if (named) {
+    return {
+      key: key === 'Space' ? ' ' : key,
+      code: named.code,
+      windowsVirtualKeyCode: named.keyCode,
+      ...(named.text ? { text: named.text } : {}),
+    }
+  }
+  if ([...key].length !== 1) {
+    throw new Error(
+      `Key "${key}" is not supported inside webviews; use a named key or one character`,
+    )
+  }
+  const upper = key.toUpperCase()
+  return {
+    key,
+    text: key,
+    ...(/^[A-Z0-9]$/.test(upper) ? { windowsVirtualKeyCode: upper.charCodeAt(0) } : {}),
+  }
+}
+
+/** Selector fields only Playwright locators understand; webviews take css, testid and text. */
+const locatorOnlyFields: Array<keyof Selector> = [
+  'ref',
+  'role',
+  'label',
+  'placeholder',
+  'altText',
+  'title',
+  'xpath',
+  'within',
+  'has',
+  'hasText',
+  'strict',
+]
+
+/** Webview guests of the app, from the browser target list. */
+export const listWebviewTargets = async (session: CDPSession): Promise<WebviewInfo[]> => {
+  const { targetInfos } = (await session.send('Target.getTargets')) as {
+    targetInfos?: Array<{ targetId: string; type: string; url: string; title: string }>
+  }
+  return (targetInfos ?? [])
+    .filter((target) => target.type === 'webview')
+    .map((target) => ({ id: target.targetId, url: target.url, title: target.title }))
+}
+
+/** Fields of `sel` a webview can't resolve; empty when the selector is usable there. */
+export const unsupportedWebviewFields = (sel: Selector): string[] =>
+  locatorOnlyFields.filter((key) => sel[key] !== undefined)
+
+const toQuery = (sel: Selector): PageQuery => {
+  const text = sel.text
+  return {
+    css: sel.css,
+    testid: sel.testid,
+    text:
+      text instanceof RegExp
+        ? { regex: text.source, flags: text.flags }
+        : (text as PageQuery['text']),
+    exact: sel.exact,
+    nth: sel.nth,
+  }
+}
+
+/**
+ * A `<webview>` guest driven over its own CDP socket. Playwright drops webview targets when it
+ * connects over CDP, so selectors are resolved by `locateInPage` and input goes through the
+ * `Input` domain. Methods throw plain Errors; the driver wraps them.
+ */
+export class WebviewTarget {
+  readonly id: string
+  #session: NodeInspectorSession
+
+  private constructor(id: string, session: NodeInspectorSession) {
+    this.id = id
+    this.#session = session
+  }
+
+  /** `browserWsUrl` is the driver's `/devtools/browser/…` endpoint. */
+  static async connect(browserWsUrl: string, id: string): Promise<WebviewTarget> {
+    const url = browserWsUrl.replace(/\/devtools\/browser\/.*$/, `/devtools/page/${id}`)
+    return new WebviewTarget(id, await NodeInspectorSession.connect(url))
+  }
+
+  get connected(): boolean {
+    return this.#session.connected
+  }
+
+  async evaluate<T = unknown>(fn: ((...args: never[]) => unknown) | string, arg?: unknown) {
+    const expression =
+      typeof fn === 'function'
+        ? `(${fn.toString()})(${arg === undefined ? '' : JSON.stringify(arg)})`
+        : String(fn)
+    const { result, exceptionDetails } = await this.#session.send<{
+      result?: { value?: unknown }
+      exceptionDetails?: { text?: string; exception?: { description?: string } }
+    }>('Runtime.evaluate', { expression, returnByValue: true, awaitPromise: true })
+    if (exceptionDetails) {
+      throw new Error(
+        exceptionDetails.exception?.description ?? exceptionDetails.text ?? 'Evaluation failed',
+      )
+    }
+    return result?.value as T
+  }
+
+  async #locate<T>(sel: Selector, action: PageAction): Promise<T> {
+    const timeoutMs = sel.timeoutMs ?? defaultTimeoutMs
+    const deadline = Date.now() + timeoutMs
+    const arg = { query: toQuery(sel), action }
+    for (;;) {
+      const found = await this.evaluate<T | null>(locateInPage, arg)
+      if (found) return found
+      if (Date.now() >= deadline) {
+        throw new Error(`No visible element in webview matched within ${timeoutMs}ms`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollMs))
+    }
+  }
+
+  async #mouse(type: string, x: number, y: number, extra: Record<string, unknown> = {}) {
+    await this.#session.send('Input.dispatchMouseEvent', { type, x, y, ...extra })
+  }
+
+  /** `clickCount: 2` sends both clicks of a double-click, like Playwright's `dblclick`. */
+  async click(
+    sel: Selector,
+    { button = 'left', clickCount = 1 }: { button?: MouseButton; clickCount?: number } = {},
+  ): Promise<void> {
+    const { x, y } = await this.#locate<{ x: number; y: number }>(sel, 'point')
+    await this.#mouse('mouseMoved', x, y)
+    for (let count = 1; count <= clickCount; count += 1) {
+      await this.#mouse('mousePressed', x, y, { button, clickCount: count })
+      await this.#mouse('mouseReleased', x, y, { button, clickCount: count })
+    }
+  }
+
+  async scrollIntoView(sel: Selector): Promise<void> {
+    await this.#locate(sel, 'point')
+  }
+
+  /** Scrolls with the pointer over the element's center. */
+  async wheel(sel: Selector, deltaX: number, deltaY: number): Promise<void> {
+    const { x, y } = await this.#locate<{ x: number; y: number }>(sel, 'point')
+    await this.#mouse('mouseMoved', x, y)
+    await this.#mouse('mouseWheel', x, y, { deltaX, deltaY })
+  }
+
+  /** Focuses the element and presses `key` (a named key or a single character). */
+  async press(sel: Selector, key: string): Promise<void> {
+    const event = keyEvent(key)
+    await this.#locate(sel, 'focus')
+    await this.#session.send('Input.dispatchKeyEvent', {
+      type: event.text ? 'keyDown' : 'rawKeyDown',
+      ...event,
+    })
+    await this.#session.send('Input.dispatchKeyEvent', { type: 'keyUp', ...event })
+  }
+
+  async hover(sel: Selector): Promise<void> {
+    const { x, y } = await this.#locate<{ x: number; y: number }>(sel, 'point')
+    await this.#mouse('mouseMoved', x, y)
+  }
+
+  /** Replaces the field's content with `value`, like Playwright's `fill`. */
+  async fill(sel: Selector, value: string): Promise<void> {
+    await this.#locate(sel, 'fill')
+    if (value) {
+      await this.#session.send('Input.insertText', { text: value })
+      return
+    }
+    const key = { key: 'Backspace', code: 'Backspace', windowsVirtualKeyCode: 8 }
+    await this.#session.send('Input.dispatchKeyEvent', { type: 'keyDown', ...key })
+    await this.#session.send('Input.dispatchKeyEvent', { type: 'keyUp', ...key })
+  }
+
+  async read(sel: Selector, as: 'innerHTML' | 'textContent'): Promise<string> {
+    const { value } = await this.#locate<{ value: string }>(sel, as)
+    return value
+  }
+
+  async close(): Promise<void> {
+    await this.#session.close()
+  }
+}
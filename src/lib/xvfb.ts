@@ -0,0 +1,97 @@
+import { spawn } from 'node:child_process'
+import type { Readable } from 'node:stream'
+
+import { isAlive } from './run-status.js'
+import type { LaunchOptions } from './types.js'
+
+export type XvfbServer = { display: string; pid: number; stop: () => Promise<void> }
+
+/**
+ * Decides whether a launch needs its own X server: only headed Linux runs without a display.
+ */
+export const needsXvfb = (
+  mode: LaunchOptions['display'],
+  headless: boolean,
+  env: NodeJS.ProcessEnv,
+): boolean => {
+  if (process.platform !== 'linux') return false
+  if (mode === 'xvfb') return true
+  if (mode === 'inherit') return false
+  return !headless && !env.DISPLAY && !env.WAYLAND_DISPLAY
+}
+
+/**
+ * Starts `Xvfb` on a free display number. `-displayfd` lets the server pick the number itself,
+ * which avoids racing other runs for lock files.
+ */
+export const startXvfb = async ({
+  screen = '1280x1024x24',
+  timeoutMs = 10_000,
+}: {
+  screen?: string
+  timeoutMs?: number
+} = {}): Promise<XvfbServer> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(
+      'Xvfb',
+      ['-displayfd', '3', '-screen', '0', screen, '-nolisten', 'tcp', '-ac'],
+      { stdio: ['ignore', 'ignore', 'pipe', 'pipe'], detached: true },
+    )
+    child.unref()
+
+    let settled = false
+    let stderr = ''
+    const finish = (error: Error | null, display?: string) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      const fd = child.stdio[3] as Readable | null
+      fd?.destroy()
+      child.stderr?.destroy()
+      if (error || !display || !child.pid) {
+        try {
+          if (child.pid) process.kill(child.pid, 'SIGKILL')
+        } catch {}
+        reject(Object.assign(error ?? new Error('Xvfb did not report a display'), { stderr }))
+        return
+      }
+      const pid = child.pid
+      resolve({ display, pid, stop: () => stopXvfb(pid) })
+    }
+
+    const timer = setTimeout(
+      () => finish(new Error(`Xvfb did not start within ${timeoutMs}ms`)),
+      timeoutMs,
+    )
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = `${stderr}${chunk.toString('utf-8')}`.slice(-2000)
+    })
+    let reported = ''
+    const displayFd = child.stdio[3] as Readable | null
+    displayFd?.on('data', (chunk: Buffer) => {
+      reported += chunk.toString('utf-8')
+      const match = reported.match(/^(\d+)\s*\n/)
+      if (match) finish(null, `:${match[1]}`)
+    })
+    child.once('error', (error) => finish(error))
+    child.once('exit', (code, signal) =>
+      finish(new Error(`Xvfb exited early (code=${code} signal=${signal})`)),
+    )
+  })
+
+export const stopXvfb = async (pid: number, timeoutMs = 2000): Promise<void> => {
+  if (!isAlive(pid)) return
+  try {
+    process.kill(pid, 'SIGTERM')
+  } catch {
+    return
+  }
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (!isAlive(pid)) return
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  }
+  try {
+    process.kill(pid, 'SIGKILL')
+  } catch {}
+}